@@ -0,0 +1,88 @@
+import { BaseCommand } from '@adonisjs/core/ace'
+import string from '@adonisjs/core/helpers/string'
+import { dirname, relative, sep } from 'node:path'
+import { stubsRoot } from '../stubs/main.js'
+
+/**
+ * Kinds of messages the generators know about
+ */
+export type MessageKind = 'command' | 'query' | 'event'
+
+/**
+ * Directories (relative to the application root) receiving the
+ * generated message classes
+ */
+const MESSAGES_DIRECTORIES: Record<MessageKind, string> = {
+  command: 'app/application/commands',
+  query: 'app/application/queries',
+  event: 'app/application/events',
+}
+
+/**
+ * Directory (relative to the application root) receiving the
+ * generated handlers
+ */
+const HANDLERS_DIRECTORY = 'app/application/handlers'
+
+/**
+ * Base class for the "make:*" generators. Names the message and its
+ * handler following the conventions used by the CQRS provider to
+ * discover handlers (e.g. "CreateUserCommandHandler" handles "CreateUserCommand")
+ */
+export abstract class MakeMessageCommand extends BaseCommand {
+  /**
+   * Generates the handler for a message and, optionally, the message
+   * class itself
+   */
+  protected async generate(
+    kind: MessageKind,
+    name: string,
+    options: { message: boolean }
+  ): Promise<void> {
+    const entity = this.app.generators.createEntity(name)
+
+    const messageName = string
+      .create(entity.name)
+      .removeExtension()
+      .removeSuffix(kind)
+      .pascalCase()
+      .suffix(string.pascalCase(kind))
+      .toString()
+    const handlerName = `${messageName}Handler`
+
+    const messagePath = this.app.makePath(
+      MESSAGES_DIRECTORIES[kind],
+      entity.path,
+      `${string.snakeCase(messageName)}.ts`
+    )
+    const handlerPath = this.app.makePath(
+      HANDLERS_DIRECTORY,
+      entity.path,
+      `${string.snakeCase(handlerName)}.ts`
+    )
+
+    const codemods = await this.createCodemods()
+
+    if (options.message) {
+      await codemods.makeUsingStub(stubsRoot, `make/${kind}/main.stub`, {
+        messageName,
+        messagePath,
+      })
+    }
+
+    await codemods.makeUsingStub(stubsRoot, `make/${kind}/handler.stub`, {
+      messageName,
+      handlerName,
+      handlerPath,
+      messageImportPath: this.#importPath(handlerPath, messagePath),
+    })
+  }
+
+  /**
+   * Relative ESM import path from one generated file to another
+   */
+  #importPath(fromFile: string, toFile: string): string {
+    const importPath = relative(dirname(fromFile), toFile).split(sep).join('/')
+    return importPath.replace(/\.ts$/, '.js')
+  }
+}
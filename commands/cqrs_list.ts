@@ -0,0 +1,94 @@
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import { CommandBus } from '../src/services/command_bus.js'
+import { EventBus } from '../src/services/event_bus.js'
+import { handlerName } from '../src/services/message.js'
+import { QueryBus } from '../src/services/query_bus.js'
+import type { HandlerRegistration } from '../src/services/registrations.js'
+import type { PipelineBehavior } from '../src/services/scoped_behaviors.js'
+
+/**
+ * Registered message, as printed by "cqrs:list --json"
+ */
+interface ListedMessage {
+  kind: HandlerRegistration['kind']
+  message: string
+  handler: string
+  scope?: string
+  source?: string
+  behaviors: { name: string; conditional: boolean }[]
+}
+
+/**
+ * List the registered commands, queries and events with their handlers
+ */
+export default class CqrsList extends BaseCommand {
+  static commandName = 'cqrs:list'
+  static description =
+    'List the registered commands, queries and events with their handlers and behaviors'
+
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.boolean({ description: 'Print the list as JSON' })
+  declare json?: boolean
+
+  async run() {
+    const [commandBus, queryBus, eventBus] = await Promise.all([
+      this.app.container.make(CommandBus),
+      this.app.container.make(QueryBus),
+      this.app.container.make(EventBus),
+    ])
+
+    const messages = [commandBus, queryBus, eventBus].flatMap((bus) =>
+      bus
+        .registrations()
+        .map((registration) => this.#describe(registration, bus.pipeline(registration)))
+    )
+
+    if (this.json) {
+      this.logger.log(JSON.stringify(messages, null, 2))
+      return
+    }
+
+    if (!messages.length) {
+      this.logger.info('No handlers registered')
+      return
+    }
+
+    const table = this.ui.table()
+    table.head(['Kind', 'Message', 'Handler', 'Source', 'Behaviors'])
+
+    for (const message of messages) {
+      table.row([
+        message.kind,
+        message.message,
+        message.scope ? `${message.handler} (${message.scope})` : message.handler,
+        message.source ?? '',
+        message.behaviors
+          .map(({ name, conditional }) => (conditional ? `${name}?` : name))
+          .join(' > '),
+      ])
+    }
+
+    table.render()
+  }
+
+  #describe(
+    registration: HandlerRegistration,
+    behaviors: PipelineBehavior<object>[]
+  ): ListedMessage {
+    return {
+      kind: registration.kind,
+      message: registration.message,
+      handler: registration.handler,
+      scope: registration.scope,
+      source: registration.source && this.app.relativePath(registration.source),
+      behaviors: behaviors.map(({ behavior, when }) => ({
+        name: handlerName(behavior),
+        conditional: Boolean(when),
+      })),
+    }
+  }
+}
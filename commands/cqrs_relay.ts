@@ -0,0 +1,38 @@
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import { OutboxRelay } from '../src/services/outbox_relay.js'
+
+/**
+ * Dispatch the messages waiting in the outbox
+ */
+export default class CqrsRelay extends BaseCommand {
+  static commandName = 'cqrs:relay'
+  static description = 'Dispatch the commands and events waiting in the CQRS outbox'
+
+  static options: CommandOptions = {
+    startApp: true,
+    staysAlive: true,
+  }
+
+  @flags.boolean({ description: 'Keep polling the outbox until the process is stopped' })
+  declare watch?: boolean
+
+  async run() {
+    const relay = await this.app.container.make(OutboxRelay)
+
+    if (this.watch) {
+      this.logger.info('Relaying the outbox, press Ctrl+C to stop')
+      this.app.terminating(() => relay.stop())
+      relay.start()
+      return
+    }
+
+    const { dispatched, failed } = await relay.drain()
+
+    this.logger.success(`Dispatched ${dispatched} outbox messages`)
+    if (failed > 0) {
+      this.logger.warning(`${failed} outbox dispatches failed, the messages will be retried later`)
+    }
+    await this.terminate()
+  }
+}
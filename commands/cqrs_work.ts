@@ -0,0 +1,54 @@
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import { QueueWorker } from '../src/services/queue_worker.js'
+import type { CqrsConfig } from '../src/types.js'
+
+/**
+ * Execute the commands queued with "commandBus.dispatch"
+ */
+export default class CqrsWork extends BaseCommand {
+  static commandName = 'cqrs:work'
+  static description = 'Execute the commands queued with "commandBus.dispatch"'
+
+  static options: CommandOptions = {
+    startApp: true,
+    staysAlive: true,
+  }
+
+  @flags.array({
+    description: 'Queues to consume, in priority order. Defaults to the default queue',
+    alias: 'q',
+  })
+  declare queue?: string[]
+
+  @flags.boolean({ description: 'Execute the available commands, then exit' })
+  declare once?: boolean
+
+  async run() {
+    const worker = await this.app.container.make(QueueWorker)
+    const queues = this.queue?.length ? this.queue : [this.#defaultQueue()]
+
+    if (!this.once) {
+      this.logger.info(`Working the ${queues.join(', ')} queues, press Ctrl+C to stop`)
+      this.app.terminating(() => worker.stop())
+      worker.start(queues)
+      return
+    }
+
+    let executed = 0
+    for (const queue of queues) {
+      while (await worker.work(queue)) {
+        executed++
+      }
+    }
+
+    this.logger.success(`Executed ${executed} queued commands`)
+    await this.terminate()
+  }
+
+  #defaultQueue(): string {
+    return (
+      this.app.config.get<CqrsConfig['queue'] | undefined>('cqrs.queue')?.defaultQueue ?? 'default'
+    )
+  }
+}
@@ -0,0 +1,17 @@
+import { args } from '@adonisjs/core/ace'
+import { MakeMessageCommand } from './_make_message.js'
+
+/**
+ * Make a new command class along with its handler
+ */
+export default class MakeCommand extends MakeMessageCommand {
+  static commandName = 'make:command'
+  static description = 'Make a new CQRS command and its handler'
+
+  @args.string({ description: 'Name of the command' })
+  declare name: string
+
+  async run() {
+    await this.generate('command', this.name, { message: true })
+  }
+}
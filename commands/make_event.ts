@@ -0,0 +1,17 @@
+import { args } from '@adonisjs/core/ace'
+import { MakeMessageCommand } from './_make_message.js'
+
+/**
+ * Make a new event class along with its handler
+ */
+export default class MakeEvent extends MakeMessageCommand {
+  static commandName = 'make:event'
+  static description = 'Make a new CQRS event and its handler'
+
+  @args.string({ description: 'Name of the event' })
+  declare name: string
+
+  async run() {
+    await this.generate('event', this.name, { message: true })
+  }
+}
@@ -0,0 +1,46 @@
+import { args, flags } from '@adonisjs/core/ace'
+import { MakeMessageCommand, type MessageKind } from './_make_message.js'
+
+const KINDS: MessageKind[] = ['command', 'query', 'event']
+
+/**
+ * Make a new handler for an existing command, query or event
+ */
+export default class MakeHandler extends MakeMessageCommand {
+  static commandName = 'make:handler'
+  static description = 'Make a new CQRS handler for an existing command, query or event'
+
+  @args.string({ description: 'Name of the command, query or event to handle' })
+  declare name: string
+
+  @flags.string({
+    description: 'Kind of message to handle (command, query or event)',
+    alias: 't',
+  })
+  declare type?: string
+
+  async run() {
+    const kind = this.#resolveKind()
+    if (!kind) {
+      this.logger.error(
+        'Unable to guess the kind of message. Use the "--type" flag with command, query or event'
+      )
+      this.exitCode = 1
+      return
+    }
+
+    await this.generate(kind, this.name, { message: false })
+  }
+
+  /**
+   * Uses the "--type" flag or, when missing, the suffix of the message name
+   * (e.g. "CreateUserCommand")
+   */
+  #resolveKind(): MessageKind | undefined {
+    if (this.type) {
+      return KINDS.find((kind) => kind === this.type!.toLowerCase())
+    }
+
+    return KINDS.find((kind) => this.name.toLowerCase().endsWith(kind))
+  }
+}
@@ -0,0 +1,17 @@
+import { args } from '@adonisjs/core/ace'
+import { MakeMessageCommand } from './_make_message.js'
+
+/**
+ * Make a new query class along with its handler
+ */
+export default class MakeQuery extends MakeMessageCommand {
+  static commandName = 'make:query'
+  static description = 'Make a new CQRS query and its handler'
+
+  @args.string({ description: 'Name of the query' })
+  declare name: string
+
+  async run() {
+    await this.generate('query', this.name, { message: true })
+  }
+}
@@ -13,14 +13,61 @@
 */
 
 import ConfigureCommand from '@adonisjs/core/commands/configure'
+import { stubsRoot } from './stubs/main.js'
+
+/**
+ * Features able to store their data in the database, with the
+ * migration creating their table
+ */
+const DATABASE_FEATURES = {
+  outbox: { message: 'Transactional outbox', stub: 'outbox', tableName: 'cqrs_outbox' },
+  idempotency: {
+    message: 'Idempotency keys of commands',
+    stub: 'idempotency',
+    tableName: 'cqrs_idempotency_keys',
+  },
+  sagas: { message: 'Saga instances', stub: 'saga', tableName: 'cqrs_sagas' },
+}
 
 export async function configure(command: ConfigureCommand) {
   const codemods = await command.createCodemods()
 
+  const queueDriver = await command.prompt.choice(
+    'Select the driver storing the commands queued with "commandBus.dispatch"',
+    ['memory', 'database', 'redis'] as const
+  )
+  const databaseFeatures = await command.prompt.multiple(
+    'Select the data to store in the database (requires @adonisjs/lucid)',
+    Object.entries(DATABASE_FEATURES).map(([name, { message }]) => ({
+      name: name as keyof typeof DATABASE_FEATURES,
+      message,
+    }))
+  )
+
+  // Publish the config file
+  await codemods.makeUsingStub(stubsRoot, 'config/cqrs.stub', {
+    queueDriver,
+    sagaStore: databaseFeatures.includes('sagas') ? 'database' : 'memory',
+  })
+
+  // Publish the jobs migration when the commands are queued in the database
+  if (queueDriver === 'database') {
+    await codemods.makeUsingStub(stubsRoot, 'make/queue/migration.stub', {
+      tableName: 'cqrs_jobs',
+    })
+  }
+
+  // Publish the migrations of the features storing their data in the database
+  for (const name of databaseFeatures) {
+    const { stub, tableName } = DATABASE_FEATURES[name]
+    await codemods.makeUsingStub(stubsRoot, `make/${stub}/migration.stub`, { tableName })
+  }
+
   // Register the CQRS provider and commands
   try {
     await codemods.updateRcFile((rcFile) => {
       rcFile.addProvider('@wailroth/cqrs/providers')
+      rcFile.addCommand('@wailroth/cqrs/commands')
     })
   } catch (error) {
     command.logger.warning('Unable to update adonisrc.ts file')
@@ -37,7 +84,9 @@ export async function configure(command: ConfigureCommand) {
   try {
     await mkdir(join(appRoot, 'app/application/commands'), { recursive: true })
     await mkdir(join(appRoot, 'app/application/queries'), { recursive: true })
+    await mkdir(join(appRoot, 'app/application/events'), { recursive: true })
     await mkdir(join(appRoot, 'app/application/handlers'), { recursive: true })
+    await mkdir(join(appRoot, 'app/application/sagas'), { recursive: true })
     command.logger.success('Created CQRS directory structure')
   } catch (error) {
     command.logger.warning('Unable to create CQRS directory structure')
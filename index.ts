@@ -8,6 +8,20 @@
 */
 
 export { configure } from './configure.js'
+export { defineConfig } from './src/define_config.js'
+export type {
+  BehaviorEntry,
+  ConditionalBehaviorEntry,
+  CqrsConfig,
+  CqrsConfigInput,
+  CommandRegistry,
+  QueryRegistry,
+  CommandResult,
+  QueryResult,
+  OutboxConfig,
+  QueueConfig,
+  SagaConfig,
+} from './src/types.js'
 
 // Export core types and classes
 export type {
@@ -15,35 +29,158 @@ export type {
   ICommandHandler,
   IQuery,
   IQueryHandler,
+  IEvent,
+  IEventHandler,
+  HandlerKind,
+  HandlerMetadata,
   CommandBehavior,
   QueryBehavior,
+  EventBehavior,
+  MessageClass,
+  MessageIdentifier,
+  MessageType,
+  SerializedMessage,
+  OutboxMessage,
+  OutboxMessageKind,
+  RelayReport,
+  OutboxRecordOptions,
+  DispatchOptions,
+  QueueDriver,
+  QueueJob,
+  RetryOptions,
+  IdempotencyOptions,
+  IdempotencyRecord,
+  IdempotencyStore,
+  IdempotentCommand,
+  StoredResult,
+  SagaInstance,
+  SagaStatus,
+  SagaStore,
+  SagaExecuteOptions,
+  QueuedCommand,
+  FailedQueueJob,
+  MessageValidator,
+  AuthorizationRule,
+  AuthorizationOptions,
+  CqrsContextOptions,
+  CqrsContextData,
+  CqrsMessageOptions,
+  TracingOptions,
+  LoggingOptions,
+  LogLevel,
+  QueryCacheOptions,
+  QueryCacheEntry,
+  CacheInvalidation,
+  BehaviorOptions,
+  PipelineBehavior,
+  HandlerRegistration,
+  HandlerScope,
+  HandlerRegistrationOptions,
+  HandlerClass,
+  HandlerResolver,
+  MetricsMessageKind,
+  MetricsOutcome,
+  MetricsRouteOptions,
 } from './src/services/index.js'
 
 export {
   CommandBus,
   QueryBus,
+  EventBus,
   ok,
   err,
   errMessage,
   isOk,
   isErr,
+  isResult,
+  Result,
+  ResultAsync,
+  combine,
+  tryCatch,
+  fromPromise,
   LoggingCommandBehavior,
   LoggingQueryBehavior,
+  LoggingEventBehavior,
   TransactionCommandBehavior,
+  RetryCommandBehavior,
+  isTransientError,
+  IdempotencyCommandBehavior,
+  MemoryIdempotencyStore,
+  DatabaseIdempotencyStore,
+  CacheIdempotencyStore,
+  resolveIdempotencyKey,
+  Saga,
+  SagaContext,
+  SagaManager,
+  SagaCommandBehavior,
+  MemorySagaStore,
+  DatabaseSagaStore,
+  CQRError,
+  HandlerNotFoundError,
+  DuplicateHandlerError,
+  HandlerDiscoveryError,
+  ValidationError,
+  CommandExecutionError,
+  SagaConcurrencyError,
+  MessageSerializationError,
+  QueryFailedError,
+  ForbiddenError,
+  toCqrError,
+  toErrorResponse,
+  renderErrors,
   CacheQueryBehavior,
+  CacheInvalidationCommandBehavior,
+  resolveQueryCache,
+  resolveInvalidatedTags,
+  stableStringify,
   ValidationCommandBehavior,
+  ValidationQueryBehavior,
+  AuthorizationCommandBehavior,
+  AuthorizationQueryBehavior,
+  TracingCommandBehavior,
+  TracingQueryBehavior,
+  MetricsCommandBehavior,
+  MetricsQueryBehavior,
+  MetricsRegistry,
+  metricsRegistry,
+  registerMetricsRoute,
+  renderMetrics,
+  redactMessage,
+  Sensitive,
+  isSensitiveField,
+  defaultSensitiveFields,
+  authorizeMessage,
+  runAs,
+  CqrsContext,
+  UseBehaviors,
+  validateMessage,
   CommandHandlerBase,
   QueryHandlerBase,
+  ResultQueryHandlerBase,
+  EventHandlerBase,
+  CommandHandler,
+  QueryHandler,
+  EventHandler,
+  Outbox,
+  OutboxRelay,
+  currentTransaction,
+  MemoryQueueDriver,
+  DatabaseQueueDriver,
+  RedisQueueDriver,
+  QueueWorker,
 } from './src/services/index.js'
 
 export type {
-  Result,
+  UnwrapResult,
+  MatchHandlers,
+  ResultError,
+  CombinedValues,
   Ok,
   Err,
-  HandlerNotFoundError,
-  ValidationError,
-  CommandExecutionError,
-  CQRError,
+  CQRErrorOptions,
+  ErrorDetails,
+  ErrorResponse,
+  SerializedError,
 } from './src/services/index.js'
 
 // Export services for dependency injection
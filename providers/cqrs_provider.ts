@@ -1,13 +1,14 @@
 /**
  * CQRS provider for AdonisJS
  *
- * Exports the CQRSProvider which registers CommandBus and QueryBus
+ * Exports the CQRSProvider which registers CommandBus, QueryBus and EventBus
  * with the AdonisJS IoC container and auto-discovers handlers.
  */
 
 export {
   default,
   registerCommandHandler,
+  registerEventHandler,
   registerQueryHandler,
 } from '../src/services/cqrs_provider.js'
 export type { ApplicationService } from '@adonisjs/core/types'
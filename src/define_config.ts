@@ -0,0 +1,60 @@
+import {
+  LoggingCommandBehavior,
+  LoggingEventBehavior,
+  LoggingQueryBehavior,
+  TransactionCommandBehavior,
+  ValidationCommandBehavior,
+} from './services/behaviors.js'
+import type { CqrsConfig, CqrsConfigInput } from './types.js'
+
+/**
+ * Define the configuration for the CQRS provider. Omitted options
+ * use the defaults the provider shipped with
+ */
+export function defineConfig(config: CqrsConfigInput): CqrsConfig {
+  return {
+    behaviors: {
+      // Order matters: validate first, then log, then wrap in transaction
+      commands: config.behaviors?.commands ?? [
+        ValidationCommandBehavior,
+        LoggingCommandBehavior,
+        TransactionCommandBehavior,
+      ],
+      queries: config.behaviors?.queries ?? [LoggingQueryBehavior],
+      events: config.behaviors?.events ?? [LoggingEventBehavior],
+    },
+    discovery: {
+      directories: config.discovery?.directories ?? ['app/application'],
+      suffixes: config.discovery?.suffixes ?? ['_handler', '.handler'],
+      sagaSuffixes: config.discovery?.sagaSuffixes ?? ['_saga', '.saga'],
+      commandSuffixes: config.discovery?.commandSuffixes ?? ['_command', '.command'],
+      querySuffixes: config.discovery?.querySuffixes ?? ['_query', '.query'],
+    },
+    logging: config.logging ?? true,
+    strict: config.strict,
+    outbox: {
+      table: config.outbox?.table ?? 'cqrs_outbox',
+      batchSize: config.outbox?.batchSize ?? 50,
+      pollInterval: config.outbox?.pollInterval ?? 1000,
+      maxAttempts: config.outbox?.maxAttempts ?? 10,
+      backoff: config.outbox?.backoff ?? 1000,
+      poll: config.outbox?.poll ?? false,
+    },
+    queue: {
+      driver: config.queue?.driver ?? 'memory',
+      defaultQueue: config.queue?.defaultQueue ?? 'default',
+      table: config.queue?.table ?? 'cqrs_jobs',
+      connection: config.queue?.connection,
+      maxAttempts: config.queue?.maxAttempts ?? 3,
+      backoff: config.queue?.backoff ?? 1000,
+      pollInterval: config.queue?.pollInterval ?? 1000,
+      retryAfter: config.queue?.retryAfter ?? 90_000,
+      work: config.queue?.work ?? [],
+    },
+    sagas: {
+      store: config.sagas?.store ?? 'memory',
+      table: config.sagas?.table ?? 'cqrs_sagas',
+      timeoutInterval: config.sagas?.timeoutInterval ?? 1000,
+    },
+  }
+}
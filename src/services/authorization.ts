@@ -0,0 +1,92 @@
+import { HttpContext } from '@adonisjs/core/http'
+import type { Bouncer } from '@adonisjs/bouncer'
+import type { BouncerAbility, Constructor } from '@adonisjs/bouncer/types'
+import { CqrsContext } from './context.js'
+import { ForbiddenError } from './errors.js'
+import { messageName } from './message.js'
+import { err, ok, type Result } from './result.js'
+
+/**
+ * Authorization required by a command or a query, declared as "static authorize":
+ * - An ability: "static authorize = editPost"
+ * - A policy action: "static authorize = [PostPolicy, 'update'] as const"
+ * The ability or the action receives the message as its argument
+ */
+export type AuthorizationRule = BouncerAbility<any> | readonly [Constructor<any>, string]
+
+/**
+ * Options accepted by the authorization behaviors
+ */
+export interface AuthorizationOptions {
+  /**
+   * Create the bouncer of an actor given to "runAs", or of the authenticated
+   * user of a request without "ctx.bouncer". Defaults to "new Bouncer(actor)"
+   */
+  createBouncer: (actor: unknown) => Bouncer<any, any, any> | Promise<Bouncer<any, any, any>>
+}
+
+/**
+ * Run a callback on behalf of an actor. Commands and queries dispatched by
+ * the callback are authorized for this actor instead of the user of the
+ * HTTP request, e.g. from Ace commands or queue workers
+ * The actor is kept in the CqrsContext
+ */
+export function runAs<T>(actor: unknown, callback: () => T): T {
+  return CqrsContext.run({ actor }, callback)
+}
+
+/**
+ * Resolve the bouncer authorizing the current dispatch:
+ * the actor of the CqrsContext ("runAs"), then the bouncer (or the user) of the HTTP request
+ */
+async function resolveBouncer(
+  options: AuthorizationOptions
+): Promise<Bouncer<any, any, any> | undefined> {
+  const actor = CqrsContext.current()?.actor
+  if (actor !== undefined) {
+    return options.createBouncer(actor)
+  }
+
+  const ctx = HttpContext.get() as
+    (HttpContext & { bouncer?: Bouncer<any, any, any>; auth?: { user?: unknown } }) | null
+  if (ctx?.bouncer) {
+    return ctx.bouncer
+  }
+
+  return ctx ? options.createBouncer(ctx.auth?.user ?? null) : undefined
+}
+
+/**
+ * Check the "static authorize" rule of a message
+ * Messages without a rule are allowed, messages with a rule are denied
+ * when there is no actor to authorize
+ * @returns Ok, or an Err with a ForbiddenError
+ */
+export async function authorizeMessage(
+  message: object,
+  options: AuthorizationOptions
+): Promise<Result<void>> {
+  const rule = (message.constructor as { authorize?: AuthorizationRule } | undefined)?.authorize
+  if (!rule) {
+    return ok()
+  }
+
+  const bouncer = await resolveBouncer(options)
+  if (!bouncer) {
+    return err([new ForbiddenError(`Cannot authorize ${messageName(message)} without an actor`)])
+  }
+
+  const response = Array.isArray(rule)
+    ? await bouncer.with(rule[0]).execute(rule[1], message)
+    : await bouncer.execute(rule as BouncerAbility<any>, message)
+
+  if (!response.authorized) {
+    return err([
+      new ForbiddenError(response.message ?? `Not authorized to execute ${messageName(message)}`, {
+        status: response.status ?? 403,
+      }),
+    ])
+  }
+
+  return ok()
+}
@@ -1,6 +1,28 @@
-import type { Result } from './result.js'
+import type { CacheService } from '@adonisjs/cache/types'
+import type { Logger } from '@adonisjs/core/logger'
+import type { Database } from '@adonisjs/lucid/database'
+import type { Attributes, AttributeValue } from '@opentelemetry/api'
+import { authorizeMessage, type AuthorizationOptions } from './authorization.js'
+import { Err, Ok, type Result } from './result.js'
 import type { ICommand } from './command.js'
+import { CqrsContext } from './context.js'
+import { CommandExecutionError, CQRError, toCqrError } from './errors.js'
+import type { IEvent } from './event.js'
+import {
+  fromStoredResult,
+  resolveIdempotencyKey,
+  MemoryIdempotencyStore,
+  toStoredResult,
+  type IdempotencyStore,
+} from './idempotency.js'
+import { messageName } from './message.js'
+import { metricsRegistry, type MetricsMessageKind, type MetricsRegistry } from './metrics.js'
 import type { IQuery } from './query.js'
+import { resolveInvalidatedTags, resolveQueryCache } from './query_cache.js'
+import { defaultSensitiveFields, redactMessage } from './redaction.js'
+import { SagaManager } from './saga_manager.js'
+import { currentTransaction, runInTransaction } from './transaction.js'
+import { validateMessage } from './validation.js'
 
 /**
  * Base interface for command behaviors (pipeline middleware)
@@ -16,21 +38,108 @@ export interface CommandBehavior {
 /**
  * Base interface for query behaviors (pipeline middleware)
  * Behaviors can be used for logging, validation, caching, performance tracking, etc.
+ * Returning an Err short-circuits the query: "tryExecute" returns it and
+ * "execute" throws a QueryFailedError (unless the handler returns results)
  */
 export interface QueryBehavior {
-  handle<TResult>(query: IQuery, next: (query: IQuery) => Promise<TResult>): Promise<TResult>
+  handle<TResult>(
+    query: IQuery,
+    next: (query: IQuery) => Promise<TResult>
+  ): Promise<TResult | Result<never>>
+}
+
+/**
+ * Base interface for event behaviors (pipeline middleware)
+ * Behaviors wrap the publication of an event to all of its handlers
+ */
+export interface EventBehavior {
+  handle<TEvent extends IEvent>(
+    event: TEvent,
+    next: (event: TEvent) => Promise<Result<void>>
+  ): Promise<Result<void>>
+}
+
+/**
+ * Levels of the logs written by the logging behaviors
+ */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal'
+
+/**
+ * Options of the logging behaviors
+ * - level: level of the logs of the messages being handled and completed
+ * - failureLevel: level of the logs of the messages returning an Err
+ * - errorLevel: level of the logs of the errors thrown while handling a message
+ * - logPayload: log the fields of the message when it is received
+ * - sensitiveFields: fields (names or paths) redacted from the payload,
+ *   in addition to the properties marked with "@Sensitive()"
+ */
+export interface LoggingOptions {
+  level: LogLevel
+  failureLevel: LogLevel
+  errorLevel: LogLevel
+  logPayload: boolean
+  sensitiveFields: readonly string[]
+}
+
+const defaultLoggingOptions: LoggingOptions = {
+  level: 'info',
+  failureLevel: 'warn',
+  errorLevel: 'error',
+  logPayload: true,
+  sensitiveFields: defaultSensitiveFields,
+}
+
+/**
+ * Fields of the logs of a message: its kind and name, and the ids of the
+ * current CqrsContext, tying the logs of nested messages to their flow
+ */
+function logFields(kind: 'command' | 'query' | 'event', message: object) {
+  const context = CqrsContext.current()
+
+  return {
+    kind,
+    name: messageName(message),
+    correlationId: context?.correlationId,
+    causationId: context?.causationId,
+    messageId: context?.messageId,
+  }
+}
+
+/**
+ * Redacted payload of a message, unless disabled
+ */
+function logPayload(message: object, options: LoggingOptions) {
+  return options.logPayload ? { payload: redactMessage(message, options.sensitiveFields) } : {}
 }
 
 /**
- * Logging behavior - logs command execution
+ * Logging behavior - logs command execution with the AdonisJS logger
+ * Writes structured logs: the kind and name of the command, the ids of the
+ * CqrsContext, the redacted payload, the duration and the errors
  */
 export class LoggingCommandBehavior implements CommandBehavior {
+  #options: LoggingOptions
+
+  constructor(
+    private logger: Logger | null = null,
+    options: Partial<LoggingOptions> = {}
+  ) {
+    this.#options = { ...defaultLoggingOptions, ...options }
+  }
+
   async handle<TCommand extends ICommand, TResult>(
     command: TCommand,
     next: (command: TCommand) => Promise<Result<TResult>>
   ): Promise<Result<TResult>> {
-    const commandName = command.constructor.name
-    console.log(`[Command] Executing: ${commandName}`, command)
+    const logger = this.logger ?? (await defaultLogger())
+    const fields = logFields('command', command)
+    const { level, failureLevel, errorLevel } = this.#options
+
+    logger.log(
+      level,
+      { ...fields, ...logPayload(command, this.#options) },
+      `Executing command ${fields.name}`
+    )
 
     const startTime = Date.now()
 
@@ -39,84 +148,506 @@ export class LoggingCommandBehavior implements CommandBehavior {
       const duration = Date.now() - startTime
 
       if (result.isOk()) {
-        console.log(`[Command] Completed: ${commandName} (${duration}ms)`)
+        logger.log(level, { ...fields, duration }, `Command ${fields.name} completed`)
       } else {
-        console.log(`[Command] Failed: ${commandName} (${duration}ms)`, result.getErrors())
+        const errors = result.getCqrErrors().map((error) => error.toJSON())
+        logger.log(failureLevel, { ...fields, duration, errors }, `Command ${fields.name} failed`)
       }
 
       return result
     } catch (error) {
       const duration = Date.now() - startTime
-      console.error(`[Command] Failed: ${commandName} (${duration}ms)`, error)
+      logger.log(errorLevel, { ...fields, duration, err: error }, `Command ${fields.name} failed`)
       const { err } = await import('./result.js')
-      return err([error instanceof Error ? error.message : 'Unknown error'])
+      return err([toCqrError(error, 'Unknown error')])
     }
   }
 }
 
 /**
- * Logging behavior - logs query execution
+ * Logging behavior - logs query execution with the AdonisJS logger,
+ * like LoggingCommandBehavior
  */
 export class LoggingQueryBehavior implements QueryBehavior {
+  #options: LoggingOptions
+
+  constructor(
+    private logger: Logger | null = null,
+    options: Partial<LoggingOptions> = {}
+  ) {
+    this.#options = { ...defaultLoggingOptions, ...options }
+  }
+
   async handle<TResult>(
     query: IQuery,
     next: (query: IQuery) => Promise<TResult>
   ): Promise<TResult> {
-    const queryName = query.constructor.name
-    console.log(`[Query] Executing: ${queryName}`, query)
+    const logger = this.logger ?? (await defaultLogger())
+    const fields = logFields('query', query)
+    const { level, failureLevel, errorLevel } = this.#options
+
+    logger.log(
+      level,
+      { ...fields, ...logPayload(query, this.#options) },
+      `Executing query ${fields.name}`
+    )
 
     const startTime = Date.now()
 
     try {
       const result = await next(query)
       const duration = Date.now() - startTime
-      console.log(`[Query] Completed: ${queryName} (${duration}ms)`)
+
+      if (result instanceof Err) {
+        const errors = result.getCqrErrors().map((error) => error.toJSON())
+        logger.log(failureLevel, { ...fields, duration, errors }, `Query ${fields.name} failed`)
+      } else {
+        logger.log(level, { ...fields, duration }, `Query ${fields.name} completed`)
+      }
+
       return result
     } catch (error) {
       const duration = Date.now() - startTime
-      console.error(`[Query] Failed: ${queryName} (${duration}ms)`, error)
+      logger.log(errorLevel, { ...fields, duration, err: error }, `Query ${fields.name} failed`)
       throw error
     }
   }
 }
 
+/**
+ * Logging behavior - logs event publication with the AdonisJS logger,
+ * like LoggingCommandBehavior
+ */
+export class LoggingEventBehavior implements EventBehavior {
+  #options: LoggingOptions
+
+  constructor(
+    private logger: Logger | null = null,
+    options: Partial<LoggingOptions> = {}
+  ) {
+    this.#options = { ...defaultLoggingOptions, ...options }
+  }
+
+  async handle<TEvent extends IEvent>(
+    event: TEvent,
+    next: (event: TEvent) => Promise<Result<void>>
+  ): Promise<Result<void>> {
+    const logger = this.logger ?? (await defaultLogger())
+    const fields = logFields('event', event)
+    const { level, failureLevel } = this.#options
+
+    logger.log(
+      level,
+      { ...fields, ...logPayload(event, this.#options) },
+      `Publishing event ${fields.name}`
+    )
+
+    const startTime = Date.now()
+    const result = await next(event)
+    const duration = Date.now() - startTime
+
+    if (result.isOk()) {
+      logger.log(level, { ...fields, duration }, `Event ${fields.name} published`)
+    } else {
+      const errors = result.getCqrErrors().map((error) => error.toJSON())
+      logger.log(failureLevel, { ...fields, duration, errors }, `Event ${fields.name} failed`)
+    }
+
+    return result
+  }
+}
+
+/**
+ * Logger of the application, for the behaviors and services constructed
+ * without a logger
+ */
+export async function defaultLogger(): Promise<Logger> {
+  const { default: logger } = await import('@adonisjs/core/services/logger')
+  return logger
+}
+
 /**
  * Transaction behavior - wraps commands in database transactions
  * Requires @adonisjs/lucid to be installed
+ *
+ * The transaction is committed when the handler returns Ok and rolled back
+ * when it returns Err or throws. Nested commands run in a savepoint of the
+ * parent transaction. Handlers access it through "currentTransaction()"
  */
 export class TransactionCommandBehavior implements CommandBehavior {
+  constructor(private db: Database | null = null) {}
+
   async handle<TCommand extends ICommand, TResult>(
     command: TCommand,
     next: (command: TCommand) => Promise<Result<TResult>>
   ): Promise<Result<TResult>> {
-    // @ts-expect-error - @adonisjs/lucid is an optional peer dependency
-    const dbModule = await import('@adonisjs/lucid/services/db')
-    const db = dbModule.default
-
     // Check if command should run in transaction
     if ('useTransaction' in command && command.useTransaction === false) {
       return next(command)
     }
 
+    const db = this.db ?? (await this.#defaultDatabase())
+    const parent = currentTransaction()
+    const trx = parent ? await parent.transaction() : await db.transaction()
+
     try {
-      const result = await db.transaction(async () => {
-        return next(command)
-      })
+      const result = await runInTransaction(trx, () => next(command))
+
+      if (result.isOk()) {
+        await trx.commit()
+      } else {
+        await trx.rollback()
+      }
+
       return result
+    } catch (error) {
+      if (!trx.isCompleted) {
+        await trx.rollback()
+      }
+
+      const { err } = await import('./result.js')
+      return err([toCqrError(error, 'Transaction failed')])
+    }
+  }
+
+  async #defaultDatabase(): Promise<Database> {
+    const { default: db } = await import('@adonisjs/lucid/services/db')
+    return db
+  }
+}
+
+/**
+ * Codes of the errors raised by the database when a transaction conflicts
+ * with another one: serialization failures and deadlocks (PostgreSQL SQLSTATE),
+ * deadlocks and lock timeouts (MySQL), busy database (SQLite)
+ */
+const TRANSIENT_CODES = new Set([
+  '40001',
+  '40P01',
+  'ER_LOCK_DEADLOCK',
+  'ER_LOCK_WAIT_TIMEOUT',
+  'SQLITE_BUSY',
+])
+
+/**
+ * Messages of the same errors, for errors that lost their code
+ */
+const TRANSIENT_MESSAGES = [
+  /deadlock/i,
+  /could not serialize/i,
+  /serialization failure/i,
+  /lock wait timeout/i,
+  /SQLITE_BUSY|database is locked/i,
+  /\b(40001|40P01)\b/,
+  /ER_LOCK_DEADLOCK|ER_LOCK_WAIT_TIMEOUT/,
+]
+
+/**
+ * Default classification used by RetryCommandBehavior: an error is
+ * transient when the database may accept the same command once retried.
+ * Checks the code of the error and of its cause, then its message
+ */
+export function isTransientError(errors: CQRError[]): boolean {
+  return errors.some((error) => {
+    const cause = error.cause as { code?: unknown } | undefined
+
+    return (
+      TRANSIENT_CODES.has(String(error.code)) ||
+      TRANSIENT_CODES.has(String(cause?.code)) ||
+      TRANSIENT_MESSAGES.some((pattern) => pattern.test(error.message))
+    )
+  })
+}
+
+/**
+ * Options accepted by RetryCommandBehavior
+ */
+export interface RetryOptions {
+  /**
+   * Number of executions before giving up, including the first one
+   */
+  maxAttempts: number
+
+  /**
+   * Delay (in milliseconds) before the first retry, doubled on each retry
+   */
+  baseDelay: number
+
+  /**
+   * Upper bound (in milliseconds) of the delay between two attempts
+   */
+  maxDelay: number
+
+  /**
+   * Randomize the delays so conflicting commands do not retry in lockstep
+   */
+  jitter: boolean
+
+  /**
+   * Decides whether the errors of a failed attempt are worth a retry
+   */
+  isTransient: (errors: CQRError[], command: ICommand) => boolean
+
+  /**
+   * Decides whether a command may be retried at all. Commands can also
+   * opt out with a "retryable = false" property
+   */
+  shouldRetry?: (command: ICommand) => boolean
+}
+
+/**
+ * Retry behavior - executes the command again when it fails with a
+ * transient error, waiting longer between each attempt
+ *
+ * Register it before TransactionCommandBehavior so each attempt runs in
+ * a fresh transaction. Nested commands are not retried: the transaction
+ * of the parent command is aborted anyway, so the parent is retried instead
+ */
+export class RetryCommandBehavior implements CommandBehavior {
+  private options: RetryOptions
+
+  constructor(options: Partial<RetryOptions> = {}) {
+    this.options = {
+      maxAttempts: 3,
+      baseDelay: 50,
+      maxDelay: 2000,
+      jitter: true,
+      isTransient: isTransientError,
+      ...options,
+    }
+  }
+
+  async handle<TCommand extends ICommand, TResult>(
+    command: TCommand,
+    next: (command: TCommand) => Promise<Result<TResult>>
+  ): Promise<Result<TResult>> {
+    if (!this.#isRetryable(command)) {
+      return next(command)
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.#attempt(command, next)
+      const errors = result.isOk() ? [] : result.getCqrErrors()
+
+      if (
+        result.isOk() ||
+        attempt >= this.options.maxAttempts ||
+        !this.options.isTransient(errors, command)
+      ) {
+        return result
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.#delay(attempt)))
+    }
+  }
+
+  #isRetryable(command: ICommand): boolean {
+    if ('retryable' in command && command.retryable === false) {
+      return false
+    }
+
+    if (this.options.shouldRetry && !this.options.shouldRetry(command)) {
+      return false
+    }
+
+    return currentTransaction() === undefined
+  }
+
+  /**
+   * Runs one attempt, turning exceptions thrown by the next behaviors into Err
+   */
+  async #attempt<TCommand extends ICommand, TResult>(
+    command: TCommand,
+    next: (command: TCommand) => Promise<Result<TResult>>
+  ): Promise<Result<TResult>> {
+    try {
+      return await next(command)
     } catch (error) {
       const { err } = await import('./result.js')
-      return err([error instanceof Error ? error.message : 'Transaction failed'])
+      return err([toCqrError(error, 'Command execution failed')])
     }
   }
+
+  /**
+   * Exponential backoff with "full jitter"
+   */
+  #delay(attempt: number): number {
+    const delay = Math.min(this.options.maxDelay, this.options.baseDelay * 2 ** (attempt - 1))
+    return this.options.jitter ? Math.random() * delay : delay
+  }
+}
+
+/**
+ * Options accepted by IdempotencyCommandBehavior
+ */
+export interface IdempotencyOptions {
+  /**
+   * Storage of the keys and results. Defaults to an in-memory store
+   */
+  store: IdempotencyStore
+
+  /**
+   * Delay (in milliseconds) during which the result of a command is
+   * returned to its duplicates
+   */
+  ttl: number
+
+  /**
+   * Delay (in milliseconds) after which a duplicate stops waiting for
+   * the execution in progress, which is also the lifetime of a reservation
+   */
+  lockTimeout: number
+
+  /**
+   * Delay (in milliseconds) between two checks of an execution in progress
+   * in another process
+   */
+  pollInterval: number
+
+  /**
+   * Return failures to duplicates as well. By default only successful
+   * results are stored, so a failed command can be sent again
+   */
+  storeErrors: boolean
+}
+
+/**
+ * Idempotency behavior - executes a command once per idempotency key and
+ * returns the result of that execution to its duplicates
+ *
+ * Commands opt in with an "idempotencyKey" property or a "static idempotent"
+ * declaration (see "resolveIdempotencyKey()"). Duplicates received while the first
+ * execution is in progress wait for its result. Register it before
+ * TransactionCommandBehavior so results are stored once committed
+ */
+export class IdempotencyCommandBehavior implements CommandBehavior {
+  private options: IdempotencyOptions
+  #inFlight = new Map<string, Promise<Result<any>>>()
+
+  constructor(options: Partial<IdempotencyOptions> = {}) {
+    this.options = {
+      store: new MemoryIdempotencyStore(),
+      ttl: 24 * 60 * 60 * 1000,
+      lockTimeout: 30_000,
+      pollInterval: 50,
+      storeErrors: false,
+      ...options,
+    }
+  }
+
+  async handle<TCommand extends ICommand, TResult>(
+    command: TCommand,
+    next: (command: TCommand) => Promise<Result<TResult>>
+  ): Promise<Result<TResult>> {
+    const key = resolveIdempotencyKey(command)
+    if (!key) {
+      return next(command)
+    }
+
+    // Duplicates received by this process share the execution in progress
+    const inFlight = this.#inFlight.get(key)
+    if (inFlight) {
+      return inFlight
+    }
+
+    const execution = this.#execute(key, command, next).finally(() => this.#inFlight.delete(key))
+    this.#inFlight.set(key, execution)
+
+    return execution
+  }
+
+  async #execute<TCommand extends ICommand, TResult>(
+    key: string,
+    command: TCommand,
+    next: (command: TCommand) => Promise<Result<TResult>>
+  ): Promise<Result<TResult>> {
+    const { store, ttl, lockTimeout, pollInterval, storeErrors } = this.options
+    const deadline = Date.now() + lockTimeout
+
+    // Wait for the execution of another process holding the key
+    while (!(await store.reserve(key, lockTimeout))) {
+      const record = await store.get(key)
+      if (record?.status === 'completed') {
+        return fromStoredResult<TResult>(record.result)
+      }
+
+      if (Date.now() >= deadline) {
+        const { err } = await import('./result.js')
+        return err([
+          new CQRError(`A command with the idempotency key "${key}" is already running`, {
+            code: 'E_IDEMPOTENCY_CONFLICT',
+            status: 409,
+          }),
+        ])
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, pollInterval))
+    }
+
+    let result: Result<TResult>
+    try {
+      result = await next(command)
+    } catch (error) {
+      await store.release(key)
+      throw error
+    }
+
+    if (result.isOk() || storeErrors) {
+      await store.complete(key, toStoredResult(result), ttl)
+    } else {
+      await store.release(key)
+    }
+
+    return result
+  }
+}
+
+/**
+ * Saga behavior - hands the result of every command to the sagas
+ * reacting to it (see "Saga.onResult")
+ */
+export class SagaCommandBehavior implements CommandBehavior {
+  constructor(
+    private sagas: SagaManager | null = null,
+    private logger: Logger | null = null
+  ) {}
+
+  async handle<TCommand extends ICommand, TResult>(
+    command: TCommand,
+    next: (command: TCommand) => Promise<Result<TResult>>
+  ): Promise<Result<TResult>> {
+    const result = await next(command)
+
+    try {
+      const sagas = this.sagas ?? (await this.#defaultSagaManager())
+      await sagas.observe(command, result)
+    } catch (error) {
+      const logger = this.logger ?? (await defaultLogger())
+      const fields = logFields('command', command)
+      logger.error({ ...fields, err: error }, `Sagas failed to handle the result of ${fields.name}`)
+    }
+
+    return result
+  }
+
+  async #defaultSagaManager(): Promise<SagaManager> {
+    const { default: app } = await import('@adonisjs/core/services/app')
+    return app.container.make(SagaManager)
+  }
 }
 
 /**
  * Cache behavior - caches query results
  * Requires @adonisjs/cache to be installed
+ *
+ * Queries configure their key, lifetime and tags with "static cache", see
+ * QueryCacheOptions. Errors are not cached
  */
 export class CacheQueryBehavior implements QueryBehavior {
   constructor(
-    private ttl: number = 3600 // 1 hour default
+    private ttl: number = 3600, // 1 hour default
+    private logger: Logger | null = null,
+    private cache: CacheService | null = null
   ) {}
 
   async handle<TResult>(
@@ -124,48 +655,370 @@ export class CacheQueryBehavior implements QueryBehavior {
     next: (query: IQuery) => Promise<TResult>
   ): Promise<TResult> {
     // Check if query should be cached
-    if ('useCache' in query && query.useCache === false) {
+    const entry = resolveQueryCache(query, this.ttl)
+    if (!entry) {
       return next(query)
     }
 
-    // @ts-expect-error - @adonisjs/cache is an optional peer dependency
-    const cacheModule = await import('@adonisjs/cache/services/main')
-    const cache = cacheModule.default
-    const cacheKey = `query:${query.constructor.name}:${JSON.stringify(query)}`
+    const cache = this.cache ?? (await defaultCache())
+    const logger = this.logger ?? (await defaultLogger())
+    const fields = { ...logFields('query', query), key: entry.key }
 
-    // Try to get from cache
-    const cached = await cache.get({ key: cacheKey })
-    if (cached !== null) {
-      console.log(`[Cache] Hit for: ${query.constructor.name}`)
-      return cached as TResult
-    }
+    // Execute the query on a miss, errors are not cached
+    let miss = false
+    let failure: TResult | undefined
+    const value = await cache.getOrSet<unknown>({
+      ...entry,
+      factory: async (context) => {
+        miss = true
+        const result = await next(query)
+        if (result instanceof Err) {
+          failure = result
+          return context.skip()
+        }
+        return result
+      },
+    })
+
+    logger.debug(fields, `Cache ${miss ? 'miss' : 'hit'} for query ${fields.name}`)
+    return failure ?? (fromCachedValue(value) as TResult)
+  }
+}
+
+/**
+ * Rebuilds the Ok of the handlers returning a Result, cached as a plain
+ * "{ __tag: 'ok', value }" object by the stores serializing their values
+ */
+function fromCachedValue(value: unknown): unknown {
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Ok) &&
+    (value as { __tag?: unknown }).__tag === 'ok' &&
+    'value' in value
+  ) {
+    return new Ok(value.value)
+  }
+
+  return value
+}
 
-    // Execute query and cache result
-    const result = await next(query)
-    await cache.set({ key: cacheKey, value: result, ttl: `${this.ttl} seconds` })
-    console.log(`[Cache] Miss for: ${query.constructor.name}`)
+/**
+ * Cache invalidation behavior - deletes the cached query results tagged with
+ * the "static invalidates" tags of a command once it succeeds
+ * Requires @adonisjs/cache to be installed
+ *
+ * Register it before TransactionCommandBehavior, so the cache is invalidated
+ * after the transaction is committed
+ */
+export class CacheInvalidationCommandBehavior implements CommandBehavior {
+  constructor(private cache: CacheService | null = null) {}
+
+  async handle<TCommand extends ICommand, TResult>(
+    command: TCommand,
+    next: (command: TCommand) => Promise<Result<TResult>>
+  ): Promise<Result<TResult>> {
+    const result = await next(command)
+    const tags = resolveInvalidatedTags(command)
+
+    if (result.isOk() && tags.length) {
+      const cache = this.cache ?? (await defaultCache())
+      await cache.deleteByTag({ tags })
+    }
 
     return result
   }
 }
 
+/**
+ * Cache of the application, for behaviors constructed without a cache
+ */
+async function defaultCache(): Promise<CacheService> {
+  const { default: cache } = await import('@adonisjs/cache/services/main')
+  return cache
+}
+
 /**
  * Validation behavior - validates commands before execution
+ * Runs the "static validator" of the command (e.g. a VineJS validator), then
+ * its "validate()" method. The handler receives the validated command
  */
 export class ValidationCommandBehavior implements CommandBehavior {
   async handle<TCommand extends ICommand, TResult>(
     command: TCommand,
     next: (command: TCommand) => Promise<Result<TResult>>
   ): Promise<Result<TResult>> {
-    // If command has a validate method, call it
-    if ('validate' in command && typeof command.validate === 'function') {
-      const validation = await (command as any).validate()
-      if (validation && !validation.isValid) {
-        const { err } = await import('./result.js')
-        return err(validation.errors || ['Validation failed'])
-      }
+    const validation = await validateMessage(command)
+    if (validation.isErr()) {
+      return new Err(validation.error)
+    }
+
+    return next(validation.value)
+  }
+}
+
+/**
+ * Validation behavior - validates queries before execution, like ValidationCommandBehavior
+ * Invalid queries are short-circuited with an Err holding a ValidationError
+ */
+export class ValidationQueryBehavior implements QueryBehavior {
+  async handle<TResult>(
+    query: IQuery,
+    next: (query: IQuery) => Promise<TResult>
+  ): Promise<TResult | Result<never>> {
+    const validation = await validateMessage(query)
+    if (validation.isErr()) {
+      return new Err(validation.error)
+    }
+
+    return next(validation.value)
+  }
+}
+
+/**
+ * Authorization behavior - checks the "static authorize" rule of commands
+ * with @adonisjs/bouncer before execution
+ * Unauthorized commands return an Err with a ForbiddenError
+ */
+export class AuthorizationCommandBehavior implements CommandBehavior {
+  #options: AuthorizationOptions
+
+  constructor(options: Partial<AuthorizationOptions> = {}) {
+    this.#options = { createBouncer: defaultBouncer, ...options }
+  }
+
+  async handle<TCommand extends ICommand, TResult>(
+    command: TCommand,
+    next: (command: TCommand) => Promise<Result<TResult>>
+  ): Promise<Result<TResult>> {
+    const authorization = await authorizeMessage(command, this.#options)
+    if (authorization.isErr()) {
+      return new Err(authorization.error)
     }
 
     return next(command)
   }
 }
+
+/**
+ * Authorization behavior - checks the "static authorize" rule of queries,
+ * like AuthorizationCommandBehavior
+ * Unauthorized queries are short-circuited with an Err holding a ForbiddenError
+ */
+export class AuthorizationQueryBehavior implements QueryBehavior {
+  #options: AuthorizationOptions
+
+  constructor(options: Partial<AuthorizationOptions> = {}) {
+    this.#options = { createBouncer: defaultBouncer, ...options }
+  }
+
+  async handle<TResult>(
+    query: IQuery,
+    next: (query: IQuery) => Promise<TResult>
+  ): Promise<TResult | Result<never>> {
+    const authorization = await authorizeMessage(query, this.#options)
+    if (authorization.isErr()) {
+      return new Err(authorization.error)
+    }
+
+    return next(query)
+  }
+}
+
+/**
+ * Bouncer of an actor, without pre-registered abilities and policies
+ */
+async function defaultBouncer(actor: unknown) {
+  const { Bouncer } = await import('@adonisjs/bouncer')
+  return new Bouncer(actor as Record<string, any> | null)
+}
+
+/**
+ * Options of the tracing behaviors
+ * - tracerName: name of the OpenTelemetry tracer creating the spans
+ * - recordPayload: record the top-level fields of the message as "cqrs.payload.*" attributes
+ * - sensitiveFields: fields redacted from the recorded payload
+ */
+export interface TracingOptions {
+  tracerName: string
+  recordPayload: boolean
+  sensitiveFields: readonly string[]
+}
+
+const defaultTracingOptions: TracingOptions = {
+  tracerName: '@wailroth/cqrs',
+  recordPayload: true,
+  sensitiveFields: defaultSensitiveFields,
+}
+
+/**
+ * Tracing behavior - creates an OpenTelemetry span for each command
+ * Requires @opentelemetry/api and a registered tracer provider
+ *
+ * Commands dispatched by a handler become child spans. The span records the
+ * names of the command and its handler, the ids of the CqrsContext and the
+ * outcome ("Ok" or "Err") with the codes and messages of the errors
+ */
+export class TracingCommandBehavior implements CommandBehavior {
+  #options: TracingOptions
+
+  constructor(options: Partial<TracingOptions> = {}) {
+    this.#options = { ...defaultTracingOptions, ...options }
+  }
+
+  async handle<TCommand extends ICommand, TResult>(
+    command: TCommand,
+    next: (command: TCommand) => Promise<Result<TResult>>
+  ): Promise<Result<TResult>> {
+    return traceMessage('command', command, this.#options, next)
+  }
+}
+
+/**
+ * Tracing behavior - creates an OpenTelemetry span for each query,
+ * like TracingCommandBehavior
+ */
+export class TracingQueryBehavior implements QueryBehavior {
+  #options: TracingOptions
+
+  constructor(options: Partial<TracingOptions> = {}) {
+    this.#options = { ...defaultTracingOptions, ...options }
+  }
+
+  async handle<TResult>(
+    query: IQuery,
+    next: (query: IQuery) => Promise<TResult>
+  ): Promise<TResult> {
+    return traceMessage('query', query, this.#options, next)
+  }
+}
+
+/**
+ * Run the next step of the pipeline in an active span, so the spans of
+ * nested dispatches are its children. Thrown errors are recorded and rethrown
+ */
+async function traceMessage<TMessage extends object, TResult>(
+  kind: 'command' | 'query',
+  message: TMessage,
+  options: TracingOptions,
+  next: (message: TMessage) => Promise<TResult>
+): Promise<TResult> {
+  const { trace, SpanStatusCode } = await import('@opentelemetry/api')
+  const name = messageName(message)
+  const context = CqrsContext.current()
+
+  const attributes: Attributes = {
+    'cqrs.message.kind': kind,
+    'cqrs.message.name': name,
+    'cqrs.handler': context?.handlerName,
+    'cqrs.correlation_id': context?.correlationId,
+    'cqrs.causation_id': context?.causationId,
+    'cqrs.message_id': context?.messageId,
+  }
+
+  if (options.recordPayload) {
+    for (const [field, value] of Object.entries(redactMessage(message, options.sensitiveFields))) {
+      if (['string', 'number', 'boolean'].includes(typeof value)) {
+        attributes[`cqrs.payload.${field}`] = value as AttributeValue
+      }
+    }
+  }
+
+  const tracer = trace.getTracer(options.tracerName)
+
+  return tracer.startActiveSpan(`${kind} ${name}`, { attributes }, async (span) => {
+    try {
+      const result = await next(message)
+
+      if (result instanceof Err) {
+        const errors = result.getCqrErrors()
+        span.setAttributes({
+          'cqrs.outcome': 'Err',
+          'cqrs.error.codes': errors.map((error) => error.code ?? 'E_CQRS_ERROR'),
+          'cqrs.error.messages': errors.map((error) => error.message),
+        })
+        span.setStatus({ code: SpanStatusCode.ERROR, message: errors[0]?.message })
+      } else {
+        span.setAttribute('cqrs.outcome', 'Ok')
+      }
+
+      return result
+    } catch (error) {
+      const cqrError = toCqrError(error)
+      span.recordException(error instanceof Error ? error : cqrError)
+      span.setAttributes({
+        'cqrs.outcome': 'Err',
+        'cqrs.error.codes': [cqrError.code ?? 'E_CQRS_ERROR'],
+        'cqrs.error.messages': [cqrError.message],
+      })
+      span.setStatus({ code: SpanStatusCode.ERROR, message: cqrError.message })
+      throw error
+    } finally {
+      span.end()
+    }
+  })
+}
+
+/**
+ * Metrics behavior - counts the commands by type and outcome and records their latency
+ * Commands whose handler threw an unexpected error (a CommandExecutionError)
+ * are counted as "threw", other Err results as "failed"
+ * Serve the metrics with "registerMetricsRoute"
+ */
+export class MetricsCommandBehavior implements CommandBehavior {
+  constructor(private registry: MetricsRegistry = metricsRegistry) {}
+
+  async handle<TCommand extends ICommand, TResult>(
+    command: TCommand,
+    next: (command: TCommand) => Promise<Result<TResult>>
+  ): Promise<Result<TResult>> {
+    return measureMessage(this.registry, 'command', command, next)
+  }
+}
+
+/**
+ * Metrics behavior - counts the queries by type and outcome and records their latency,
+ * like MetricsCommandBehavior
+ */
+export class MetricsQueryBehavior implements QueryBehavior {
+  constructor(private registry: MetricsRegistry = metricsRegistry) {}
+
+  async handle<TResult>(
+    query: IQuery,
+    next: (query: IQuery) => Promise<TResult>
+  ): Promise<TResult> {
+    return measureMessage(this.registry, 'query', query, next)
+  }
+}
+
+/**
+ * Run the next step of the pipeline and record its outcome and duration
+ */
+async function measureMessage<TMessage extends object, TResult>(
+  registry: MetricsRegistry,
+  kind: MetricsMessageKind,
+  message: TMessage,
+  next: (message: TMessage) => Promise<TResult>
+): Promise<TResult> {
+  const name = messageName(message)
+  registry.dispatched(kind, name)
+
+  const startTime = performance.now()
+  const duration = () => (performance.now() - startTime) / 1000
+
+  try {
+    const result = await next(message)
+
+    if (result instanceof Err) {
+      const threw = result.getCqrErrors().some((error) => error instanceof CommandExecutionError)
+      registry.observe(kind, name, threw ? 'threw' : 'failed', duration())
+    } else {
+      registry.observe(kind, name, 'succeeded', duration())
+    }
+
+    return result
+  } catch (error) {
+    registry.observe(kind, name, 'threw', duration())
+    throw error
+  }
+}
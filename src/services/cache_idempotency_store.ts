@@ -0,0 +1,48 @@
+import type { CacheService } from '@adonisjs/cache/types'
+import type { IdempotencyRecord, IdempotencyStore, StoredResult } from './idempotency.js'
+
+/**
+ * Idempotency store keeping the keys in @adonisjs/cache
+ *
+ * Reservations are not atomic across processes: two processes receiving
+ * the same key at the same time may both execute the command. Duplicates
+ * received by the same process always wait for the first execution
+ */
+export class CacheIdempotencyStore implements IdempotencyStore {
+  constructor(
+    private cache: CacheService,
+    private prefix: string = 'cqrs:idempotency'
+  ) {}
+
+  async reserve(key: string, ttl: number): Promise<boolean> {
+    if (await this.get(key)) {
+      return false
+    }
+
+    await this.#set(key, { status: 'pending' }, ttl)
+    return true
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const record = await this.cache.get<IdempotencyRecord | null | undefined>({
+      key: this.#key(key),
+    })
+    return record ?? null
+  }
+
+  async complete(key: string, result: StoredResult, ttl: number): Promise<void> {
+    await this.#set(key, { status: 'completed', result }, ttl)
+  }
+
+  async release(key: string): Promise<void> {
+    await this.cache.delete({ key: this.#key(key) })
+  }
+
+  async #set(key: string, record: IdempotencyRecord, ttl: number): Promise<void> {
+    await this.cache.set({ key: this.#key(key), value: record, ttl })
+  }
+
+  #key(key: string): string {
+    return `${this.prefix}:${key}`
+  }
+}
@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/naming-convention */
 import type { Result } from './result.js'
 
-export type { Result, Ok, Err } from './result.js'
+export { Result, Ok, Err } from './result.js'
 
 /**
  * Base marker interface for all Commands
@@ -1,6 +1,66 @@
+import type { CommandHandlerResult, CommandResult } from '../types.js'
 import type { CommandBehavior } from './behaviors.js'
 import type { ICommand, ICommandHandler } from './command.js'
-import type { Result } from './result.js'
+import { CqrsContext } from './context.js'
+import {
+  CommandExecutionError,
+  CQRError,
+  DuplicateHandlerError,
+  HandlerNotFoundError,
+} from './errors.js'
+import {
+  handlerEntry,
+  handlerPrototype,
+  isResolvedFrom,
+  resolveHandler,
+  type HandlerClass,
+  type HandlerRegistrationOptions,
+  type HandlerResolver,
+} from './handler_resolver.js'
+import {
+  findHandler,
+  handlerName,
+  identifierName,
+  messageKey,
+  messageName,
+  rememberMessageClass,
+  serializeMessage,
+  type MessageClass,
+  type MessageIdentifier,
+} from './message.js'
+import type { DispatchOptions, QueueDriver } from './queue.js'
+import {
+  handlerRegistration,
+  registrationBehaviors,
+  type HandlerRegistration,
+} from './registrations.js'
+import { ResultAsync, type Result } from './result.js'
+import {
+  pipelineBehaviors,
+  scopedBehaviors,
+  type BehaviorOptions,
+  type PipelineBehavior,
+} from './scoped_behaviors.js'
+
+/**
+ * Handler accepted by "register" for a command identifier
+ */
+type CommandHandlerFor<TIdentifier, TResult> = ICommandHandler<
+  TIdentifier extends MessageClass<infer TCommand extends ICommand> ? TCommand : any,
+  CommandHandlerResult<TIdentifier, TResult>
+>
+
+/**
+ * Error of a command whose handler threw
+ */
+function toCommandError(error: unknown): CQRError {
+  return error instanceof CQRError
+    ? error
+    : new CommandExecutionError(
+        error instanceof Error ? error.message : 'Command execution failed',
+        error
+      )
+}
 
 /**
  * CommandBus - dispatches commands to their registered handlers
@@ -8,43 +68,158 @@ import type { Result } from './result.js'
  * NOTE: Do NOT add @inject() decorator - this is registered as a singleton in the provider
  */
 export class CommandBus {
-  private handlers = new Map<string, unknown>()
-  private behaviors: CommandBehavior[] = []
+  private handlers = new Map<unknown, unknown>()
+  private behaviors: PipelineBehavior<CommandBehavior>[] = []
+  private queue?: { driver: QueueDriver; defaultQueue: string }
+  private resolver?: HandlerResolver
+  private strict = false
 
   /**
    * Register a handler for a specific command type
+   * The command is identified by its class, its "static readonly type"
+   * or, for backward compatibility, its class name
+   * In strict mode, registering a second handler for a command throws a
+   * DuplicateHandlerError instead of replacing the first one
+   * Commands declared in the CommandRegistry must be registered with a
+   * handler returning the declared result
+   * A handler class is created by the resolver when a command is executed,
+   * and reused according to its scope
    */
-  register<TCommand extends ICommand, TResult>(
-    commandIdentifier: string,
-    handler: ICommandHandler<TCommand, TResult>
+  register<TIdentifier extends MessageIdentifier<ICommand>, TResult>(
+    commandIdentifier: TIdentifier,
+    handler:
+      | CommandHandlerFor<TIdentifier, TResult>
+      | HandlerClass<CommandHandlerFor<TIdentifier, TResult>>,
+    options: HandlerRegistrationOptions = {}
   ): void {
-    this.handlers.set(commandIdentifier, handler)
+    rememberMessageClass(commandIdentifier)
+
+    const key = messageKey(commandIdentifier)
+    const existing = this.handlers.get(key)
+    if (existing === handler || isResolvedFrom(this.handlers.values(), handler)) {
+      return
+    }
+
+    if (existing && this.strict) {
+      throw new DuplicateHandlerError('command', identifierName(commandIdentifier))
+    }
+
+    this.handlers.set(key, handlerEntry(handler, options))
+  }
+
+  /**
+   * Throw when a second handler is registered for a command
+   */
+  useStrictMode(strict: boolean = true): void {
+    this.strict = strict
+  }
+
+  /**
+   * Whether a handler is registered for the commands of a class
+   */
+  hasHandler(commandClass: MessageClass): boolean {
+    return findHandler(this.handlers, Object.create(commandClass.prototype)) !== undefined
+  }
+
+  /**
+   * Set the resolver creating the handlers registered by class
+   */
+  useResolver(resolver: HandlerResolver): void {
+    this.resolver = resolver
+  }
+
+  /**
+   * Handlers registered on the bus, one by command
+   */
+  registrations(): HandlerRegistration[] {
+    return [...this.handlers].map(([key, entry]) =>
+      handlerRegistration('command', key, entry as object)
+    )
+  }
+
+  /**
+   * Behaviors of the bus or, given a registration, of the pipeline of its
+   * handler, in order. Behaviors restricted with "when" are included
+   */
+  pipeline(registration?: HandlerRegistration): PipelineBehavior<CommandBehavior>[] {
+    return registrationBehaviors(this.behaviors, registration)
   }
 
   /**
    * Add a pipeline behavior (middleware) to the command execution
-   * Behaviors are executed in order before the handler
+   * Behaviors are executed in order before the handler, "when" restricts
+   * a behavior to the commands matching the predicate
    */
-  use(behavior: CommandBehavior): void {
-    this.behaviors.push(behavior)
+  use(behavior: CommandBehavior, options: BehaviorOptions = {}): void {
+    this.behaviors.push({ behavior, when: options.when })
+  }
+
+  /**
+   * Set the queue driver receiving the commands passed to "dispatch"
+   */
+  useQueue(driver: QueueDriver, defaultQueue: string = 'default'): void {
+    this.queue = { driver, defaultQueue }
+  }
+
+  /**
+   * Queue a command to be executed later by a worker ("node ace cqrs:work")
+   * The worker rebuilds the command as an instance of its class when the class
+   * is known to its process: registered by class, declared in a discovered
+   * command file or dispatched before. Commands without a string type are rejected
+   * @returns The id of the queued job
+   */
+  async dispatch(command: ICommand, options: DispatchOptions = {}): Promise<string> {
+    if (!this.queue) {
+      throw new CQRError('Cannot dispatch commands without a queue driver')
+    }
+
+    const { type, payload } = serializeMessage(command)
+
+    return this.queue.driver.push({
+      type,
+      payload,
+      queue: options.queue ?? this.queue.defaultQueue,
+      availableAt: Date.now() + (options.delay ?? 0),
+    })
   }
 
   /**
    * Execute a command by dispatching it to its registered handler
-   * @returns Result with success status and optional data
+   * The result type is inferred from the CommandRegistry when the command is declared in it
+   * The command is handled in a child of the current CqrsContext
+   * @returns Result with success status and optional data, which can be awaited or chained
    */
-  async execute<TCommand extends ICommand, TResult = void>(
+  execute<TCommand extends ICommand, TResult = CommandResult<TCommand>>(
     command: TCommand
+  ): ResultAsync<TResult> {
+    const entry = findHandler(this.handlers, command) as object | undefined
+
+    return new ResultAsync(
+      CqrsContext.runChild(() => this.executeCommand<TCommand, TResult>(command, entry), {
+        messageName: messageName(command),
+        handlerName: entry && handlerName(handlerPrototype(entry)),
+      })
+    )
+  }
+
+  /**
+   * Run a command through the pipeline of its handler
+   */
+  private async executeCommand<TCommand extends ICommand, TResult>(
+    command: TCommand,
+    entry: object | undefined
   ): Promise<Result<TResult>> {
-    const commandIdentifier = command.constructor.name
+    const { err } = await import('./result.js')
 
-    const handler = this.handlers.get(commandIdentifier) as
-      | ICommandHandler<TCommand, TResult>
-      | undefined
+    if (!entry) {
+      return err([new HandlerNotFoundError('command', messageName(command))])
+    }
 
-    if (!handler) {
-      const { err } = await import('./result.js')
-      return err([`No handler registered for command: ${commandIdentifier}`])
+    let handler: ICommandHandler<TCommand, TResult>
+    try {
+      handler = await resolveHandler(entry, this.resolver)
+    } catch (error) {
+      return err([toCommandError(error)])
     }
 
     // Build the pipeline: behaviors -> handler
@@ -58,7 +233,7 @@ export class CommandBus {
    * Build the execution pipeline with behaviors
    */
   private buildPipeline<TCommand extends ICommand, TResult>(
-    _command: TCommand,
+    command: TCommand,
     handler: ICommandHandler<TCommand, TResult>
   ): (command: TCommand) => Promise<Result<TResult>> {
     // Start with the handler
@@ -67,13 +242,20 @@ export class CommandBus {
         return await handler.handle(cmd)
       } catch (error) {
         const { err } = await import('./result.js')
-        return err([error instanceof Error ? error.message : 'Command execution failed'])
+        return err([toCommandError(error)])
       }
     }
 
+    // Behaviors of the bus, then of the command class, then of the handler class
+    const behaviors = pipelineBehaviors(command, [
+      ...this.behaviors,
+      ...scopedBehaviors<CommandBehavior>(command),
+      ...scopedBehaviors<CommandBehavior>(handler),
+    ])
+
     // Wrap with behaviors in reverse order (last behavior wraps first)
-    for (let i = this.behaviors.length - 1; i >= 0; i--) {
-      const behavior = this.behaviors[i]
+    for (let i = behaviors.length - 1; i >= 0; i--) {
+      const behavior = behaviors[i]
       const next = pipeline
       pipeline = async (cmd) => behavior.handle(cmd, next)
     }
@@ -0,0 +1,144 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomUUID } from 'node:crypto'
+import { HttpContext } from '@adonisjs/core/http'
+
+/**
+ * Values given when opening or extending a context
+ */
+export interface CqrsContextOptions {
+  correlationId?: string
+  causationId?: string
+  messageId?: string
+  actor?: unknown
+  tenant?: string
+  metadata?: Record<string, unknown>
+  messageName?: string
+  handlerName?: string
+}
+
+/**
+ * Message handled in a child context, see "CqrsContext.runChild"
+ */
+export type CqrsMessageOptions = Pick<CqrsContextOptions, 'messageName' | 'handlerName'>
+
+/**
+ * Serialized context, e.g. to forward the ids to another service
+ */
+export interface CqrsContextData {
+  correlationId: string
+  causationId?: string
+  messageId: string
+  tenant?: string
+  metadata: Record<string, unknown>
+}
+
+const storage = new AsyncLocalStorage<CqrsContext>()
+
+/**
+ * Execution context of the commands, queries and events being dispatched
+ * - correlationId: shared by every message of a flow (the HTTP request id when available)
+ * - causationId: id of the message whose handler dispatched the current one
+ * - messageId: id of the current message
+ * - actor, tenant and metadata: inherited by the nested dispatches
+ * - messageName and handlerName: the message being handled and its handler
+ *
+ * The buses open a child context for each message, so behaviors and handlers
+ * read the context of their message with "CqrsContext.current()"
+ */
+export class CqrsContext {
+  readonly correlationId: string
+  readonly causationId?: string
+  readonly messageId: string
+  readonly actor?: unknown
+  readonly tenant?: string
+  readonly metadata: Record<string, unknown>
+  readonly messageName?: string
+  readonly handlerName?: string
+
+  constructor(options: CqrsContextOptions = {}) {
+    this.messageId = options.messageId ?? randomUUID()
+    this.correlationId = options.correlationId ?? this.messageId
+    this.causationId = options.causationId
+    this.actor = options.actor
+    this.tenant = options.tenant
+    this.metadata = { ...options.metadata }
+    this.messageName = options.messageName
+    this.handlerName = options.handlerName
+  }
+
+  /**
+   * Context of the message being handled, if any
+   */
+  static current(): CqrsContext | undefined {
+    return storage.getStore()
+  }
+
+  /**
+   * Run a callback in a context extending the current one with the given
+   * values (e.g. the actor or the tenant of a job). Without a current context,
+   * a new flow is started, seeded from the HTTP request
+   */
+  static run<T>(options: CqrsContextOptions, callback: () => T): T {
+    const parent = storage.getStore() ?? CqrsContext.#fromRequest()
+    const context = new CqrsContext({
+      correlationId: parent?.correlationId,
+      causationId: parent?.causationId,
+      messageId: parent?.messageId,
+      actor: parent?.actor,
+      tenant: parent?.tenant,
+      messageName: parent?.messageName,
+      handlerName: parent?.handlerName,
+      ...options,
+      metadata: { ...parent?.metadata, ...options.metadata },
+    })
+
+    return storage.run(context, callback)
+  }
+
+  /**
+   * Run the handling of a message in a child context: the message gets a new id,
+   * caused by the current message, in the same flow
+   */
+  static runChild<T>(callback: () => T, message: CqrsMessageOptions = {}): T {
+    const parent = storage.getStore() ?? CqrsContext.#fromRequest()
+
+    return storage.run(parent ? parent.child(message) : new CqrsContext(message), callback)
+  }
+
+  /**
+   * Context seeded from the HTTP request, when the HttpContext is available
+   */
+  static #fromRequest(): CqrsContext | undefined {
+    const ctx = HttpContext.get()
+    if (!ctx) {
+      return undefined
+    }
+
+    const requestId = ctx.request.id()
+    return new CqrsContext({ correlationId: requestId, messageId: requestId })
+  }
+
+  /**
+   * Context of a message dispatched while handling this one
+   */
+  child(message: CqrsMessageOptions = {}): CqrsContext {
+    return new CqrsContext({
+      correlationId: this.correlationId,
+      causationId: this.messageId,
+      actor: this.actor,
+      tenant: this.tenant,
+      metadata: this.metadata,
+      ...message,
+    })
+  }
+
+  toJSON(): CqrsContextData {
+    return {
+      correlationId: this.correlationId,
+      causationId: this.causationId,
+      messageId: this.messageId,
+      tenant: this.tenant,
+      metadata: this.metadata,
+    }
+  }
+}
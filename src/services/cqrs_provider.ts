@@ -1,62 +1,177 @@
+import type { ContainerResolver } from '@adonisjs/core/container'
+import type { Logger } from '@adonisjs/core/logger'
 import type { ApplicationService } from '@adonisjs/core/types'
+import type { Dirent } from 'node:fs'
 import { readdir } from 'node:fs/promises'
 import { join } from 'node:path'
-import { cwd } from 'node:process'
 import { pathToFileURL } from 'node:url'
-import {
-  LoggingCommandBehavior,
-  LoggingQueryBehavior,
-  TransactionCommandBehavior,
-  ValidationCommandBehavior,
-} from './behaviors.js'
+import { defineConfig } from '../define_config.js'
+import type { BehaviorEntry, CqrsConfig } from '../types.js'
 import { CommandBus } from './command_bus.js'
+import { DatabaseQueueDriver } from './database_queue_driver.js'
+import { DatabaseSagaStore } from './database_saga_store.js'
+import { HandlerDiscoveryError } from './errors.js'
+import { EventBus } from './event_bus.js'
+import {
+  LazyHandler,
+  type HandlerClass,
+  type HandlerRegistrationOptions,
+} from './handler_resolver.js'
+import { handlerMetadata, isDecoratedHandler } from './handlers.js'
+import { MemoryQueueDriver } from './memory_queue_driver.js'
+import {
+  identifierName,
+  rememberMessageClass,
+  type MessageClass,
+  type MessageIdentifier,
+} from './message.js'
+import { MetricsRegistry, metricsRegistry } from './metrics.js'
+import { Outbox } from './outbox.js'
+import { OutboxRelay } from './outbox_relay.js'
 import { QueryBus } from './query_bus.js'
+import type { QueueDriver } from './queue.js'
+import { QueueWorker } from './queue_worker.js'
+import { RedisQueueDriver } from './redis_queue_driver.js'
+import { rememberHandlerSource } from './registrations.js'
+import { MemorySagaStore, Saga, type SagaStore } from './saga.js'
+import { SagaManager } from './saga_manager.js'
+import { isConditionalBehavior, type PipelineBehavior } from './scoped_behaviors.js'
 
 /**
- * CQRS Provider - registers the CommandBus and QueryBus with the container
- * and auto-registers all handlers found in the application directory
+ * CQRS Provider - registers the CommandBus, QueryBus and EventBus with the container
+ * and auto-registers all handlers found in the configured directories
+ *
+ * The provider is driven by "config/cqrs.ts" and falls back to the
+ * defaults of "defineConfig" when the file does not exist
  */
 export default class CQRSProvider {
+  #config!: CqrsConfig
+  #relay?: OutboxRelay
+  #worker?: QueueWorker
+  #sagaManager?: SagaManager
+  #queueDriver?: Promise<QueueDriver>
+  #logger!: Logger
+  #strict = false
+  #messages: { kind: 'command' | 'query'; messageClass: MessageClass; file: string }[] = []
+
   constructor(protected app: ApplicationService) {}
 
   /**
    * Register bindings to the container
    */
   async register(): Promise<void> {
+    this.#config = this.app.config.get<CqrsConfig>('cqrs', defineConfig({}))
+    this.#strict = this.#config.strict ?? (this.app.inTest || this.app.inProduction)
+    const { behaviors } = this.#config
+
     // Register CommandBus as singleton (using class directly for DI)
-    this.app.container.singleton(CommandBus, () => {
+    this.app.container.singleton(CommandBus, async (resolver) => {
       const bus = new CommandBus()
+      bus.useResolver(this.app.container)
+      bus.useStrictMode(this.#strict)
 
-      // Add default behaviors (order matters)
-      bus.use(new ValidationCommandBehavior()) // Validate first
-      bus.use(new LoggingCommandBehavior()) // Then log
-      bus.use(new TransactionCommandBehavior()) // Then wrap in transaction
+      // Add configured behaviors (order matters)
+      for (const { behavior, when } of await this.#resolveBehaviors(behaviors.commands, resolver)) {
+        bus.use(behavior, { when })
+      }
 
+      bus.useQueue(await this.#resolveQueueDriver(resolver), this.#config.queue.defaultQueue)
       return bus
     })
 
     // Register QueryBus as singleton (using class directly for DI)
-    this.app.container.singleton(QueryBus, () => {
+    this.app.container.singleton(QueryBus, async (resolver) => {
       const bus = new QueryBus()
+      bus.useResolver(this.app.container)
+      bus.useStrictMode(this.#strict)
+
+      // Add configured behaviors (order matters)
+      for (const { behavior, when } of await this.#resolveBehaviors(behaviors.queries, resolver)) {
+        bus.use(behavior, { when })
+      }
+
+      return bus
+    })
+
+    // Register EventBus as singleton (using class directly for DI)
+    this.app.container.singleton(EventBus, async (resolver) => {
+      const bus = new EventBus()
+      bus.useResolver(this.app.container)
 
-      // Add default behaviors (order matters)
-      bus.use(new LoggingQueryBehavior()) // Log queries
+      // Add configured behaviors (order matters)
+      for (const { behavior, when } of await this.#resolveBehaviors(behaviors.events, resolver)) {
+        bus.use(behavior, { when })
+      }
 
       return bus
     })
+
+    // Register the registry of the metrics behaviors, served by "registerMetricsRoute"
+    this.app.container.singleton(MetricsRegistry, () => metricsRegistry)
+
+    // Register the Outbox and its relay (requires @adonisjs/lucid)
+    this.app.container.singleton(Outbox, async (resolver) => {
+      return new Outbox(await resolver.make('lucid.db'), this.#config.outbox)
+    })
+
+    this.app.container.singleton(OutboxRelay, async (resolver) => {
+      const [outbox, commandBus, eventBus, logger] = await Promise.all([
+        resolver.make(Outbox),
+        resolver.make(CommandBus),
+        resolver.make(EventBus),
+        resolver.make('logger'),
+      ])
+
+      this.#relay = new OutboxRelay(outbox, commandBus, eventBus, this.#config.outbox, logger)
+      return this.#relay
+    })
+
+    // Register the worker executing the queued commands
+    this.app.container.singleton(QueueWorker, async (resolver) => {
+      const commandBus = await resolver.make(CommandBus)
+      const driver = await this.#resolveQueueDriver(resolver)
+      const logger = await resolver.make('logger')
+
+      this.#worker = new QueueWorker(commandBus, driver, this.#config.queue, logger)
+      return this.#worker
+    })
+
+    // Register the manager of the discovered sagas
+    this.app.container.singleton(SagaManager, async (resolver) => {
+      const [commandBus, eventBus, store, logger] = await Promise.all([
+        resolver.make(CommandBus),
+        resolver.make(EventBus),
+        this.#resolveSagaStore(resolver),
+        resolver.make('logger'),
+      ])
+
+      this.#sagaManager = new SagaManager(commandBus, eventBus, store, this.#config.sagas, logger)
+      return this.#sagaManager
+    })
   }
 
   /**
    * Boot the provider - auto-register all handlers
+   * In strict mode, the commands and queries found in the discovered
+   * directories must have a handler
    */
   async boot(): Promise<void> {
-    const [commandBus, queryBus] = await Promise.all([
+    this.#logger = await this.app.container.make('logger')
+
+    const [commandBus, queryBus, eventBus] = await Promise.all([
       this.app.container.make(CommandBus),
       this.app.container.make(QueryBus),
+      this.app.container.make(EventBus),
     ])
 
-    const handlersPath = join(cwd(), 'app/application')
-    await this.#registerHandlersFromDirectory(handlersPath, commandBus, queryBus)
+    for (const directory of this.#config.discovery.directories) {
+      const handlersPath = this.app.makePath(directory)
+      await this.#registerHandlersFromDirectory(handlersPath, commandBus, queryBus, eventBus)
+    }
+
+    if (this.#strict) {
+      this.#checkMessageHandlers(commandBus, queryBus)
+    }
   }
 
   /**
@@ -66,42 +181,176 @@ export default class CQRSProvider {
     // Handlers are already registered in boot()
     const commandBus = await this.app.container.make(CommandBus)
     const queryBus = await this.app.container.make(QueryBus)
-    const commandCount = commandBus['handlers'].size
-    const queryCount = queryBus['handlers'].size
-    console.log(
-      `[CQRS] Registered ${commandCount} command handlers and ${queryCount} query handlers`
+    const eventBus = await this.app.container.make(EventBus)
+    const commandCount = commandBus.registrations().length
+    const queryCount = queryBus.registrations().length
+    const eventCount = eventBus.registrations().length
+    this.#log(
+      `[CQRS] Registered ${commandCount} command handlers, ${queryCount} query handlers and ${eventCount} event handlers`
     )
   }
 
+  /**
+   * Start relaying the outbox from the HTTP server when polling is enabled.
+   * Use the "cqrs:relay --watch" command to relay from a dedicated process
+   */
+  async ready(): Promise<void> {
+    if (this.#config.outbox.poll && this.app.getEnvironment() === 'web') {
+      const relay = await this.app.container.make(OutboxRelay)
+      relay.start()
+    }
+
+    if (this.#config.queue.work.length && this.app.getEnvironment() === 'web') {
+      const worker = await this.app.container.make(QueueWorker)
+      worker.start(this.#config.queue.work)
+    }
+
+    if (this.#sagaManager?.sagas.length && this.app.getEnvironment() === 'web') {
+      this.#sagaManager.start()
+    }
+  }
+
+  /**
+   * Stop relaying the outbox, working the queues and checking the saga
+   * timeouts, waiting for the work in progress
+   */
+  async shutdown(): Promise<void> {
+    await Promise.all([this.#relay?.stop(), this.#worker?.stop(), this.#sagaManager?.stop()])
+  }
+
+  /**
+   * Creates the configured queue driver once, as it is shared by
+   * the CommandBus and the QueueWorker
+   */
+  #resolveQueueDriver(resolver: ContainerResolver<any>): Promise<QueueDriver> {
+    this.#queueDriver ??= (async () => {
+      const { queue } = this.#config
+
+      switch (queue.driver) {
+        case 'memory':
+          return new MemoryQueueDriver()
+        case 'database':
+          return new DatabaseQueueDriver(await resolver.make('lucid.db'), queue)
+        case 'redis': {
+          const redis = await resolver.make('redis')
+          return new RedisQueueDriver(redis.connection(queue.connection), queue)
+        }
+        default:
+          return queue.driver
+      }
+    })()
+
+    return this.#queueDriver
+  }
+
+  /**
+   * Creates the configured saga store
+   */
+  async #resolveSagaStore(resolver: ContainerResolver<any>): Promise<SagaStore> {
+    const { sagas } = this.#config
+
+    switch (sagas.store) {
+      case 'memory':
+        return new MemorySagaStore()
+      case 'database':
+        return new DatabaseSagaStore(await resolver.make('lucid.db'), sagas.table)
+      default:
+        return sagas.store
+    }
+  }
+
+  /**
+   * Instantiates behavior classes through the container and keeps
+   * behavior instances as they are, with the "when" predicate of
+   * conditional entries
+   */
+  async #resolveBehaviors<TBehavior>(
+    entries: BehaviorEntry<TBehavior>[],
+    resolver: ContainerResolver<any>
+  ): Promise<PipelineBehavior<TBehavior>[]> {
+    const resolved: PipelineBehavior<TBehavior>[] = []
+
+    for (const entry of entries) {
+      const { behavior, when } = isConditionalBehavior(entry)
+        ? entry
+        : { behavior: entry, when: undefined }
+
+      resolved.push({
+        behavior:
+          typeof behavior === 'function'
+            ? await resolver.make(behavior as new (...args: any[]) => TBehavior)
+            : (behavior as TBehavior),
+        when,
+      })
+    }
+
+    return resolved
+  }
+
+  /**
+   * Logs a message unless logging is disabled in the config
+   */
+  #log(message: string, fields: Record<string, unknown> = {}): void {
+    if (this.#config.logging) {
+      this.#logger.info(fields, message)
+    }
+  }
+
+  /**
+   * Fails the boot in strict mode, logs the error otherwise
+   */
+  #fail(message: string, error: unknown, file: string): void {
+    if (this.#strict) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new HandlerDiscoveryError(`${message} (${this.app.relativePath(file)}): ${reason}`, {
+        cause: error,
+      })
+    }
+
+    this.#logger.error({ err: error, file }, `[CQRS] ${message}`)
+  }
+
   /**
    * Recursively scans directory for handler files and registers them
    */
   async #registerHandlersFromDirectory(
     directory: string,
     commandBus: CommandBus,
-    queryBus: QueryBus
+    queryBus: QueryBus,
+    eventBus: EventBus
   ): Promise<void> {
+    let files: Dirent[]
+
     try {
-      const files = await readdir(directory, { withFileTypes: true })
+      files = await readdir(directory, { withFileTypes: true })
+    } catch (error) {
+      // Directory might not exist, ignore
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return
+      }
+
+      return this.#fail('Failed to read the directory', error, directory)
+    }
 
-      for (const file of files) {
-        const fullPath = join(directory, file.name)
+    for (const file of files) {
+      const fullPath = join(directory, file.name)
 
-        if (file.isDirectory()) {
-          // Skip node_modules and test directories
-          if (file.name === 'node_modules' || file.name === 'tests') {
-            continue
-          }
-          await this.#registerHandlersFromDirectory(fullPath, commandBus, queryBus)
+      if (file.isDirectory()) {
+        // Skip node_modules and test directories
+        if (file.name === 'node_modules' || file.name === 'tests') {
           continue
         }
+        await this.#registerHandlersFromDirectory(fullPath, commandBus, queryBus, eventBus)
+        continue
+      }
 
-        if (this.#isHandlerFile(file.name)) {
-          await this.#registerHandlerFromFile(fullPath, commandBus, queryBus)
-        }
+      if (this.#isHandlerFile(file.name)) {
+        await this.#registerHandlerFromFile(fullPath, commandBus, queryBus, eventBus)
+      } else if (this.#isSagaFile(file.name)) {
+        await this.#registerSagaFromFile(fullPath)
+      } else {
+        await this.#collectMessagesFromFile(fullPath)
       }
-    } catch (error) {
-      // Directory might not exist, ignore
     }
   }
 
@@ -109,51 +358,184 @@ export default class CQRSProvider {
    * Checks if a file is a handler file based on its name
    */
   #isHandlerFile(fileName: string): boolean {
-    return (
-      fileName.endsWith('_handler.ts') ||
-      fileName.endsWith('_handler.js') ||
-      fileName.endsWith('.handler.ts') ||
-      fileName.endsWith('.handler.js')
+    return this.#hasSuffix(fileName, this.#config.discovery.suffixes)
+  }
+
+  /**
+   * Checks if a file is a saga file based on its name
+   */
+  #isSagaFile(fileName: string): boolean {
+    return this.#hasSuffix(fileName, this.#config.discovery.sagaSuffixes)
+  }
+
+  /**
+   * Checks if a file name ends with one of the suffixes (without extension)
+   */
+  #hasSuffix(fileName: string, suffixes: string[]): boolean {
+    return suffixes.some(
+      (suffix) => fileName.endsWith(`${suffix}.ts`) || fileName.endsWith(`${suffix}.js`)
+    )
+  }
+
+  /**
+   * Remembers the messages exported by a command or query file, so the queued
+   * and relayed messages are rebuilt as instances of their class. In strict
+   * mode, they are checked for a handler once every handler is registered
+   */
+  async #collectMessagesFromFile(filePath: string): Promise<void> {
+    const { commandSuffixes, querySuffixes } = this.#config.discovery
+    const kind = this.#hasSuffix(filePath, commandSuffixes)
+      ? 'command'
+      : this.#hasSuffix(filePath, querySuffixes)
+        ? 'query'
+        : undefined
+
+    if (!kind) {
+      return
+    }
+
+    try {
+      const messageModule = await import(pathToFileURL(filePath).href)
+
+      for (const messageClass of this.#messageClasses(messageModule, kind)) {
+        rememberMessageClass(messageClass)
+        this.#messages.push({ kind, messageClass, file: filePath })
+      }
+    } catch (error) {
+      this.#fail(`Failed to import the ${kind}s`, error, filePath)
+    }
+  }
+
+  /**
+   * Classes of the commands or queries exported by a module: the classes
+   * declaring a "static type", carrying the marker on their prototype or named
+   * after their kind (e.g. "PingCommand"). Helper functions and the base
+   * classes extended by another export are skipped
+   */
+  #messageClasses(messageModule: Record<string, unknown>, kind: 'command' | 'query') {
+    const classes = [...new Set(Object.values(messageModule))].filter(
+      (value): value is MessageClass =>
+        typeof value === 'function' && Function.prototype.toString.call(value).startsWith('class')
     )
+    const suffix = kind === 'command' ? 'Command' : 'Query'
+
+    return classes.filter((messageClass) => {
+      const type = (messageClass as { type?: unknown }).type
+      const isMessage =
+        typeof type === 'string' ||
+        typeof type === 'symbol' ||
+        `__${kind}` in messageClass.prototype ||
+        messageClass.name.endsWith(suffix)
+
+      return isMessage && !classes.some((other) => Object.getPrototypeOf(other) === messageClass)
+    })
   }
 
   /**
-   * Processes a handler file and registers it with the appropriate bus
+   * Fails the boot when discovered commands or queries have no handler
+   */
+  #checkMessageHandlers(commandBus: CommandBus, queryBus: QueryBus): void {
+    const missing = this.#messages.filter(({ kind, messageClass }) =>
+      kind === 'command' ? !commandBus.hasHandler(messageClass) : !queryBus.hasHandler(messageClass)
+    )
+
+    if (missing.length) {
+      const messages = missing.map(
+        ({ kind, messageClass, file }) =>
+          `${kind} ${messageClass.name} (${this.app.relativePath(file)})`
+      )
+      throw new HandlerDiscoveryError(`No handler registered for ${messages.join(', ')}`)
+    }
+  }
+
+  /**
+   * Processes a saga file and registers the saga with the SagaManager
+   */
+  async #registerSagaFromFile(filePath: string): Promise<void> {
+    try {
+      const path = pathToFileURL(filePath)
+      const sagaModule = await import(path.href)
+      const SagaClass = sagaModule.default
+
+      if (typeof SagaClass !== 'function' || !(SagaClass.prototype instanceof Saga)) {
+        return
+      }
+
+      const sagaManager = await this.app.container.make(SagaManager)
+      const saga: Saga<any> = await this.app.container.make(SagaClass)
+      sagaManager.register(saga)
+      this.#log(`[CQRS] Registered saga: ${saga.sagaName}`, { saga: saga.sagaName })
+    } catch (error) {
+      this.#fail('Failed to register the saga', error, filePath)
+    }
+  }
+
+  /**
+   * Processes a handler file and registers its handlers with the appropriate bus:
+   * the exported classes declared with a handler decorator, and the default
+   * export named after its message (e.g. "UpdateUserProfileCommandHandler")
    */
   async #registerHandlerFromFile(
     filePath: string,
     commandBus: CommandBus,
-    queryBus: QueryBus
+    queryBus: QueryBus,
+    eventBus: EventBus
   ): Promise<void> {
     try {
       const path = pathToFileURL(filePath)
       const handlerModule = await import(path.href)
+      const handlerClasses = new Set<Function>()
 
-      // Get the default export (the handler class)
-      const HandlerClass = handlerModule.default
-
-      if (!HandlerClass || typeof HandlerClass !== 'function') {
-        return
+      for (const [name, value] of Object.entries(handlerModule)) {
+        if (typeof value === 'function' && (name === 'default' || isDecoratedHandler(value))) {
+          handlerClasses.add(value)
+        }
       }
 
-      // Extract handler name from class name
-      // e.g., "UpdateUserProfileCommandHandler" -> "UpdateUserProfileCommand"
-      // e.g., "GetUserProfileQueryHandler" -> "GetUserProfileQuery"
-      const className = HandlerClass.name
-
-      if (className.endsWith('QueryHandler')) {
-        const queryName = className.replace(/QueryHandler$/, 'Query')
-        const handlerInstance = await this.app.container.make(HandlerClass)
-        queryBus.register(queryName, handlerInstance)
-        console.log(`[CQRS] Registered query handler: ${className} -> ${queryName}`)
-      } else if (className.endsWith('CommandHandler')) {
-        const commandName = className.replace(/CommandHandler$/, 'Command')
-        const handlerInstance = await this.app.container.make(HandlerClass)
-        commandBus.register(commandName, handlerInstance)
-        console.log(`[CQRS] Registered command handler: ${className} -> ${commandName}`)
+      for (const HandlerClass of handlerClasses) {
+        rememberHandlerSource(HandlerClass, filePath)
+        await this.#registerHandlerClass(HandlerClass, commandBus, queryBus, eventBus)
       }
     } catch (error) {
-      console.error(`[CQRS] Failed to register handler from ${filePath}:`, error)
+      this.#fail('Failed to register the handlers', error, filePath)
+    }
+  }
+
+  /**
+   * Registers a handler class for the messages it handles. The handler is
+   * created from the container when a message is dispatched, except for the
+   * singletons in strict mode, created right away to fail the boot on errors
+   */
+  async #registerHandlerClass(
+    HandlerClass: Function,
+    commandBus: CommandBus,
+    queryBus: QueryBus,
+    eventBus: EventBus
+  ): Promise<void> {
+    const metadata = handlerMetadata(HandlerClass)
+    if (!metadata) {
+      return
+    }
+
+    const bus: { register(message: MessageIdentifier<any>, handler: any): void } = {
+      command: commandBus,
+      query: queryBus,
+      event: eventBus,
+    }[metadata.kind]
+    const className = HandlerClass.name
+    const handler = new LazyHandler(HandlerClass as HandlerClass)
+
+    for (const message of metadata.messages) {
+      const name = identifierName(message)
+      bus.register(message, handler)
+      this.#log(`[CQRS] Registered ${metadata.kind} handler: ${className} -> ${name}`, {
+        handler: className,
+        [metadata.kind]: name,
+      })
+    }
+
+    if (this.#strict && handler.scope === 'singleton') {
+      await handler.resolve(this.app.container)
     }
   }
 }
@@ -161,37 +543,77 @@ export default class CQRSProvider {
 /**
  * Helper function to register a command handler manually
  * Can be used in service providers or boot methods
+ * The handler is an instance, or a class created from the container when
+ * a command is executed
  */
 export function registerCommandHandler(
   app: ApplicationService,
-  commandName: string,
-  handler: any
+  commandIdentifier: MessageIdentifier<any>,
+  handler: any,
+  options: HandlerRegistrationOptions = {}
 ): void {
   app.container
     .make(CommandBus)
     .then((bus: CommandBus) => {
-      bus.register(commandName, handler)
+      bus.register(commandIdentifier, handler, options)
     })
-    .catch((error) => {
-      console.error(`Failed to register command handler for ${commandName}:`, error)
+    .catch(async (error) => {
+      const logger = await app.container.make('logger')
+      logger.error(
+        { err: error, command: identifierName(commandIdentifier) },
+        '[CQRS] Failed to register command handler'
+      )
     })
 }
 
 /**
  * Helper function to register a query handler manually
  * Can be used in service providers or boot methods
+ * The handler is an instance, or a class created from the container when
+ * a query is executed
  */
 export function registerQueryHandler(
   app: ApplicationService,
-  queryName: string,
-  handler: any
+  queryIdentifier: MessageIdentifier<any>,
+  handler: any,
+  options: HandlerRegistrationOptions = {}
 ): void {
   app.container
     .make(QueryBus)
     .then((bus: QueryBus) => {
-      bus.register(queryName, handler)
+      bus.register(queryIdentifier, handler, options)
+    })
+    .catch(async (error) => {
+      const logger = await app.container.make('logger')
+      logger.error(
+        { err: error, query: identifierName(queryIdentifier) },
+        '[CQRS] Failed to register query handler'
+      )
+    })
+}
+
+/**
+ * Helper function to register an event handler manually
+ * Can be used in service providers or boot methods
+ * The handler is an instance, or a class created from the container when
+ * an event is published
+ */
+export function registerEventHandler(
+  app: ApplicationService,
+  eventIdentifier: MessageIdentifier<any>,
+  handler: any,
+  options: HandlerRegistrationOptions = {}
+): void {
+  app.container
+    .make(EventBus)
+    .then((bus: EventBus) => {
+      bus.register(eventIdentifier, handler, options)
     })
-    .catch((error) => {
-      console.error(`Failed to register query handler for ${queryName}:`, error)
+    .catch(async (error) => {
+      const logger = await app.container.make('logger')
+      logger.error(
+        { err: error, event: identifierName(eventIdentifier) },
+        '[CQRS] Failed to register event handler'
+      )
     })
 }
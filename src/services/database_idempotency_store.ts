@@ -0,0 +1,61 @@
+import type { Database } from '@adonisjs/lucid/database'
+import type { IdempotencyRecord, IdempotencyStore, StoredResult } from './idempotency.js'
+
+/**
+ * Idempotency store keeping the keys in a database table, shared by
+ * every process using the database
+ * Requires @adonisjs/lucid to be installed
+ */
+export class DatabaseIdempotencyStore implements IdempotencyStore {
+  constructor(
+    private db: Database,
+    private table: string = 'cqrs_idempotency_keys'
+  ) {}
+
+  async reserve(key: string, ttl: number): Promise<boolean> {
+    const now = Date.now()
+    await this.db.from(this.table).where('key', key).where('expires_at', '<=', now).delete()
+
+    try {
+      await this.db
+        .insertQuery()
+        .table(this.table)
+        .insert({ key, result: null, expires_at: now + ttl })
+      return true
+    } catch (error) {
+      // The primary key rejected the insert: another execution holds the key
+      if (await this.get(key)) {
+        return false
+      }
+
+      throw error
+    }
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const row = await this.db
+      .from(this.table)
+      .where('key', key)
+      .where('expires_at', '>', Date.now())
+      .first()
+
+    if (!row) {
+      return null
+    }
+
+    return row.result === null
+      ? { status: 'pending' }
+      : { status: 'completed', result: JSON.parse(row.result) }
+  }
+
+  async complete(key: string, result: StoredResult, ttl: number): Promise<void> {
+    await this.db
+      .from(this.table)
+      .where('key', key)
+      .update({ result: JSON.stringify(result), expires_at: Date.now() + ttl })
+  }
+
+  async release(key: string): Promise<void> {
+    await this.db.from(this.table).where('key', key).delete()
+  }
+}
@@ -0,0 +1,102 @@
+import type { Database } from '@adonisjs/lucid/database'
+import type { QueueConfig } from '../types.js'
+import type { QueueDriver, QueueJob, QueuedCommand } from './queue.js'
+
+/**
+ * Queue driver storing the jobs in a database table
+ * Requires @adonisjs/lucid to be installed
+ */
+export class DatabaseQueueDriver implements QueueDriver {
+  constructor(
+    private db: Database,
+    private config: Pick<QueueConfig, 'table' | 'retryAfter'>
+  ) {}
+
+  async push(command: QueuedCommand): Promise<string> {
+    const [id] = await this.db
+      .insertQuery()
+      .table(this.config.table)
+      .insert({
+        queue: command.queue,
+        type: command.type,
+        payload: JSON.stringify(command.payload),
+        attempts: 0,
+        available_at: command.availableAt,
+        created_at: new Date(),
+      })
+      .returning('id')
+
+    return String(typeof id === 'object' ? id.id : id)
+  }
+
+  async pop(queue: string): Promise<QueueJob | null> {
+    const now = Date.now()
+    const expiredReservation = now - this.config.retryAfter
+
+    // Claim the oldest available job, retrying when another worker claimed it first
+    while (true) {
+      const row = await this.db
+        .from(this.config.table)
+        .where('queue', queue)
+        .whereNull('failed_at')
+        .where('available_at', '<=', now)
+        .where((query) => {
+          query.whereNull('reserved_at').orWhere('reserved_at', '<=', expiredReservation)
+        })
+        .orderBy('available_at')
+        .orderBy('id')
+        .first()
+
+      if (!row) {
+        return null
+      }
+
+      const claimed = await this.db
+        .from(this.config.table)
+        .where('id', row.id)
+        .where((query) => {
+          query.whereNull('reserved_at').orWhere('reserved_at', '<=', expiredReservation)
+        })
+        .update({ reserved_at: now })
+
+      // Some dialects report the affected rows as an array
+      if (Number(claimed) === 1) {
+        return {
+          id: String(row.id),
+          queue: row.queue,
+          type: row.type,
+          payload: JSON.parse(row.payload),
+          attempts: row.attempts,
+        }
+      }
+    }
+  }
+
+  async complete(job: QueueJob): Promise<void> {
+    await this.db.from(this.config.table).where('id', job.id).delete()
+  }
+
+  async release(job: QueueJob, delay: number, errors: string[]): Promise<void> {
+    await this.db
+      .from(this.config.table)
+      .where('id', job.id)
+      .update({
+        attempts: job.attempts + 1,
+        last_error: errors.join(', '),
+        available_at: Date.now() + delay,
+        reserved_at: null,
+      })
+  }
+
+  async fail(job: QueueJob, errors: string[]): Promise<void> {
+    await this.db
+      .from(this.config.table)
+      .where('id', job.id)
+      .update({
+        attempts: job.attempts + 1,
+        last_error: errors.join(', '),
+        reserved_at: null,
+        failed_at: new Date(),
+      })
+  }
+}
@@ -0,0 +1,95 @@
+import type { Database } from '@adonisjs/lucid/database'
+import { SagaConcurrencyError } from './errors.js'
+import type { SagaInstance, SagaStore } from './saga.js'
+
+/**
+ * Saga store keeping the instances in a database table
+ * Requires @adonisjs/lucid to be installed
+ */
+export class DatabaseSagaStore implements SagaStore {
+  constructor(
+    private db: Database,
+    private table: string = 'cqrs_sagas'
+  ) {}
+
+  async find(sagaName: string, correlationId: string): Promise<SagaInstance | null> {
+    const row = await this.db
+      .from(this.table)
+      .where('saga_name', sagaName)
+      .where('correlation_id', correlationId)
+      .first()
+
+    return row ? this.#toInstance(row) : null
+  }
+
+  async save(instance: SagaInstance): Promise<void> {
+    const columns = {
+      status: instance.status,
+      state: JSON.stringify(instance.state),
+      compensations: JSON.stringify(instance.compensations),
+      errors: JSON.stringify(instance.errors),
+      deadline: instance.deadline,
+      version: instance.version + 1,
+      updated_at: new Date(),
+    }
+
+    if (instance.version === 0) {
+      try {
+        await this.db
+          .insertQuery()
+          .table(this.table)
+          .insert({
+            saga_name: instance.sagaName,
+            correlation_id: instance.correlationId,
+            created_at: new Date(),
+            ...columns,
+          })
+      } catch (error) {
+        // The unique index rejected the insert: the instance was created concurrently
+        if (await this.find(instance.sagaName, instance.correlationId)) {
+          throw new SagaConcurrencyError(instance.sagaName, instance.correlationId)
+        }
+
+        throw error
+      }
+    } else {
+      const updated = await this.db
+        .from(this.table)
+        .where('saga_name', instance.sagaName)
+        .where('correlation_id', instance.correlationId)
+        .where('version', instance.version)
+        .update(columns)
+
+      // Some dialects report the affected rows as an array
+      if (Number(updated) !== 1) {
+        throw new SagaConcurrencyError(instance.sagaName, instance.correlationId)
+      }
+    }
+
+    instance.version++
+  }
+
+  async expired(now: number): Promise<SagaInstance[]> {
+    const rows = await this.db
+      .from(this.table)
+      .where('status', 'running')
+      .whereNotNull('deadline')
+      .where('deadline', '<=', now)
+      .orderBy('deadline')
+
+    return rows.map((row) => this.#toInstance(row))
+  }
+
+  #toInstance(row: Record<string, any>): SagaInstance {
+    return {
+      sagaName: row.saga_name,
+      correlationId: row.correlation_id,
+      status: row.status,
+      state: JSON.parse(row.state),
+      compensations: JSON.parse(row.compensations),
+      errors: JSON.parse(row.errors),
+      deadline: row.deadline === null ? null : Number(row.deadline),
+      version: row.version,
+    }
+  }
+}
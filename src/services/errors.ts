@@ -1,10 +1,65 @@
+import { Exception } from '@adonisjs/core/exceptions'
+
+/**
+ * Field-level error messages, keyed by field name
+ */
+export type ErrorDetails = Record<string, string[]>
+
+/**
+ * Options accepted by CQRError and its subclasses
+ */
+export interface CQRErrorOptions extends ErrorOptions {
+  code?: string
+  status?: number
+  details?: ErrorDetails
+}
+
+/**
+ * JSON representation of a CQRError, used by the HTTP responses
+ * and the stores keeping results
+ */
+export interface SerializedError {
+  code: string
+  message: string
+  status: number
+  details?: ErrorDetails
+}
+
 /**
  * Base error for CQRS-related issues
+ * Carries a machine readable code, the HTTP status it maps to,
+ * optional field-level details and the original error as its cause
  */
-export class CQRError extends Error {
-  constructor(message: string) {
-    super(message)
+export class CQRError extends Exception {
+  static code = 'E_CQRS_ERROR'
+  static status = 400
+
+  readonly details?: ErrorDetails
+
+  constructor(message: string, options: CQRErrorOptions = {}) {
+    super(message, options)
     this.name = 'CQRError'
+    this.details = options.details
+  }
+
+  /**
+   * Rebuild an error serialized with "toJSON"
+   */
+  static fromJSON(error: SerializedError): CQRError {
+    return new CQRError(error.message, {
+      code: error.code,
+      status: error.status,
+      details: error.details,
+    })
+  }
+
+  toJSON(): SerializedError {
+    return {
+      code: this.code ?? CQRError.code,
+      message: this.message,
+      status: this.status,
+      ...(this.details ? { details: this.details } : {}),
+    }
   }
 }
 
@@ -12,31 +67,149 @@ export class CQRError extends Error {
  * Thrown when no handler is registered for a command/query
  */
 export class HandlerNotFoundError extends CQRError {
+  static code = 'E_HANDLER_NOT_FOUND'
+  static status = 500
+
   constructor(type: string, identifier: string) {
     super(`No handler registered for ${type}: ${identifier}`)
     this.name = 'HandlerNotFoundError'
   }
 }
 
+/**
+ * Thrown in strict mode when a second handler is registered for a command/query
+ */
+export class DuplicateHandlerError extends CQRError {
+  static code = 'E_DUPLICATE_HANDLER'
+  static status = 500
+
+  constructor(type: string, identifier: string) {
+    super(`A handler is already registered for ${type}: ${identifier}`)
+    this.name = 'DuplicateHandlerError'
+  }
+}
+
+/**
+ * Thrown in strict mode when the provider boots with handler files failing to
+ * load or with commands/queries having no handler
+ */
+export class HandlerDiscoveryError extends CQRError {
+  static code = 'E_HANDLER_DISCOVERY'
+  static status = 500
+
+  constructor(message: string, options: CQRErrorOptions = {}) {
+    super(message, options)
+    this.name = 'HandlerDiscoveryError'
+  }
+}
+
 /**
  * Thrown when a command/query validation fails
  */
 export class ValidationError extends CQRError {
-  constructor(public readonly errors: string[]) {
-    super(`Validation failed: ${errors.join(', ')}`)
+  static code = 'E_VALIDATION_ERROR'
+  static status = 422
+
+  constructor(
+    public readonly errors: string[],
+    details?: ErrorDetails
+  ) {
+    super(`Validation failed: ${errors.join(', ')}`, { details })
     this.name = 'ValidationError'
   }
 }
 
 /**
- * Thrown when command execution fails
+ * Returned when the actor of a command/query is not allowed to execute it
  */
-export class CommandExecutionError extends CQRError {
+export class ForbiddenError extends CQRError {
+  static code = 'E_FORBIDDEN'
+  static status = 403
+
+  constructor(message: string, options: CQRErrorOptions = {}) {
+    super(message, options)
+    this.name = 'ForbiddenError'
+  }
+}
+
+/**
+ * Thrown by "QueryBus.execute" when a behavior short-circuits a query
+ * with an Err and its handler does not return results
+ */
+export class QueryFailedError extends CQRError {
+  static code = 'E_QUERY_FAILED'
+
   constructor(
-    message: string,
-    public readonly cause?: Error
+    identifier: string,
+    public readonly errors: string[],
+    options: CQRErrorOptions = {}
   ) {
-    super(message)
+    super(`Query ${identifier} failed: ${errors.join(', ')}`, options)
+    this.name = 'QueryFailedError'
+  }
+}
+
+/**
+ * Thrown when command execution fails
+ */
+export class CommandExecutionError extends CQRError {
+  static code = 'E_COMMAND_EXECUTION_FAILED'
+  static status = 500
+
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause })
     this.name = 'CommandExecutionError'
   }
 }
+
+/**
+ * Thrown when a message cannot be serialized or rebuilt: it has no string
+ * type, or several classes share its type
+ */
+export class MessageSerializationError extends CQRError {
+  static code = 'E_MESSAGE_SERIALIZATION'
+  static status = 500
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'MessageSerializationError'
+  }
+}
+
+/**
+ * Thrown by the saga stores when an instance was updated concurrently
+ */
+export class SagaConcurrencyError extends CQRError {
+  static code = 'E_SAGA_CONCURRENCY'
+  static status = 409
+
+  constructor(sagaName: string, correlationId: string) {
+    super(`Saga "${sagaName}" (${correlationId}) was updated concurrently`)
+    this.name = 'SagaConcurrencyError'
+  }
+}
+
+/**
+ * Convert anything thrown or given to "err()" into a CQRError
+ * - CQRErrors are kept as they are
+ * - Strings become CQRErrors with the default code and status
+ * - Other errors are wrapped and kept as the cause. Their code and status
+ *   are kept when they have one (e.g. the 404 of "findOrFail"), 500 otherwise
+ */
+export function toCqrError(error: unknown, fallbackMessage: string = 'Unexpected error'): CQRError {
+  if (error instanceof CQRError) {
+    return error
+  }
+
+  if (typeof error === 'string') {
+    return new CQRError(error)
+  }
+
+  const { code, status } = (error ?? {}) as { code?: unknown; status?: unknown }
+
+  return new CQRError(error instanceof Error ? error.message : fallbackMessage, {
+    code: typeof code === 'string' ? code : 'E_UNEXPECTED_ERROR',
+    status: typeof status === 'number' ? status : 500,
+    cause: error,
+  })
+}
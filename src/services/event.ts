@@ -0,0 +1,17 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+/**
+ * Base marker interface for all Events
+ * Events represent facts that already happened (e.g. "UserCreated")
+ * They are published to zero or many handlers
+ */
+export interface IEvent {
+  readonly __event: true
+}
+
+/**
+ * Interface for handling events
+ * @template TEvent - The event type this handler reacts to
+ */
+export interface IEventHandler<TEvent extends IEvent> {
+  handle(event: TEvent): Promise<void>
+}
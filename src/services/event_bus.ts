@@ -0,0 +1,204 @@
+import type { EventBehavior } from './behaviors.js'
+import { CqrsContext } from './context.js'
+import { toCqrError } from './errors.js'
+import type { IEvent, IEventHandler } from './event.js'
+import {
+  handlerEntry,
+  isResolvedFrom,
+  resolveHandler,
+  type HandlerClass,
+  type HandlerRegistrationOptions,
+  type HandlerResolver,
+} from './handler_resolver.js'
+import {
+  messageKey,
+  messageKeys,
+  messageName,
+  rememberMessageClass,
+  rememberMessageClassOf,
+  type MessageIdentifier,
+} from './message.js'
+import {
+  handlerRegistration,
+  registrationBehaviors,
+  type HandlerRegistration,
+} from './registrations.js'
+import { ResultAsync, type Result } from './result.js'
+import {
+  pipelineBehaviors,
+  scopedBehaviors,
+  type BehaviorOptions,
+  type PipelineBehavior,
+} from './scoped_behaviors.js'
+
+/**
+ * EventBus - publishes events to every handler registered for them
+ * Supports pipeline behaviors for cross-cutting concerns
+ * NOTE: Do NOT add @inject() decorator - this is registered as a singleton in the provider
+ */
+export class EventBus {
+  private handlers = new Map<unknown, unknown[]>()
+  private behaviors: PipelineBehavior<EventBehavior>[] = []
+  private resolver?: HandlerResolver
+
+  /**
+   * Register a handler for a specific event type
+   * The event is identified by its class, its "static readonly type"
+   * or, for backward compatibility, its class name
+   * Several handlers can be registered for the same event
+   * A handler class is created by the resolver when an event is published,
+   * and reused according to its scope
+   */
+  register<TEvent extends IEvent>(
+    eventIdentifier: MessageIdentifier<TEvent>,
+    handler: IEventHandler<TEvent> | HandlerClass<IEventHandler<TEvent>>,
+    options: HandlerRegistrationOptions = {}
+  ): void {
+    rememberMessageClass(eventIdentifier)
+
+    const key = messageKey(eventIdentifier)
+    const handlers = this.handlers.get(key) ?? []
+
+    // The same instance may be registered by its base class and by the provider
+    if (
+      !handlers.includes(handler) &&
+      !isResolvedFrom([...this.handlers.values()].flat(), handler)
+    ) {
+      handlers.push(handlerEntry(handler, options))
+    }
+
+    this.handlers.set(key, handlers)
+  }
+
+  /**
+   * Set the resolver creating the handlers registered by class
+   */
+  useResolver(resolver: HandlerResolver): void {
+    this.resolver = resolver
+  }
+
+  /**
+   * Handlers registered on the bus, one by event and handler
+   */
+  registrations(): HandlerRegistration[] {
+    return [...this.handlers].flatMap(([key, entries]) =>
+      entries.map((entry) => handlerRegistration('event', key, entry as object))
+    )
+  }
+
+  /**
+   * Behaviors of the bus or, given a registration, of the pipeline of its
+   * handler, in order. Behaviors restricted with "when" are included
+   */
+  pipeline(registration?: HandlerRegistration): PipelineBehavior<EventBehavior>[] {
+    return registrationBehaviors(this.behaviors, registration)
+  }
+
+  /**
+   * Add a pipeline behavior (middleware) to the event publication
+   * Behaviors are executed in order before the handlers, "when" restricts
+   * a behavior to the events matching the predicate
+   */
+  use(behavior: EventBehavior, options: BehaviorOptions = {}): void {
+    this.behaviors.push({ behavior, when: options.when })
+  }
+
+  /**
+   * Publish an event to all of its registered handlers
+   * Every handler runs even if another one fails, failures are collected in the Result
+   * The event is handled in a child of the current CqrsContext
+   */
+  publish<TEvent extends IEvent>(event: TEvent): ResultAsync<void> {
+    return new ResultAsync(
+      CqrsContext.runChild(() => this.publishEvent(event), { messageName: messageName(event) })
+    )
+  }
+
+  /**
+   * Run an event through the pipeline of its handlers
+   */
+  private async publishEvent<TEvent extends IEvent>(event: TEvent): Promise<Result<void>> {
+    rememberMessageClassOf(event)
+
+    // Handlers may be registered under any of the event keys (class, type or name)
+    const handlers = [...new Set(messageKeys(event).flatMap((key) => this.handlers.get(key) ?? []))]
+
+    // Build the pipeline: behaviors -> handlers
+    const pipeline = this.buildPipeline(event, handlers)
+
+    // Execute the pipeline
+    return pipeline(event)
+  }
+
+  /**
+   * Build the publication pipeline with behaviors
+   */
+  private buildPipeline<TEvent extends IEvent>(
+    event: TEvent,
+    entries: unknown[]
+  ): (event: TEvent) => Promise<Result<void>> {
+    // Start with the fan-out to all handlers, created when registered by class
+    const pipeline: (event: TEvent) => Promise<Result<void>> = async (evt) => {
+      const outcomes = await Promise.allSettled(
+        entries.map(async (entry) => {
+          const handler = await resolveHandler<IEventHandler<TEvent>>(entry, this.resolver)
+          return this.buildHandlerPipeline(evt, handler)(evt)
+        })
+      )
+      const errors = outcomes.flatMap((outcome) => {
+        if (outcome.status === 'rejected') {
+          return [toCqrError(outcome.reason, 'Event handler failed')]
+        }
+        return outcome.value.isErr() ? outcome.value.getCqrErrors() : []
+      })
+
+      const { ok, err } = await import('./result.js')
+      return errors.length > 0 ? err(errors) : ok(undefined)
+    }
+
+    // Behaviors of the bus, then of the event class
+    const behaviors = pipelineBehaviors(event, [
+      ...this.behaviors,
+      ...scopedBehaviors<EventBehavior>(event),
+    ])
+
+    return wrapBehaviors(pipeline, behaviors)
+  }
+
+  /**
+   * Build the pipeline of a single handler with the behaviors of its class,
+   * run around the handler only
+   */
+  private buildHandlerPipeline<TEvent extends IEvent>(
+    event: TEvent,
+    handler: IEventHandler<TEvent>
+  ): (event: TEvent) => Promise<Result<void>> {
+    const pipeline = async (evt: TEvent): Promise<Result<void>> => {
+      await handler.handle(evt)
+      const { ok } = await import('./result.js')
+      return ok(undefined)
+    }
+
+    return wrapBehaviors(
+      pipeline,
+      pipelineBehaviors(event, scopedBehaviors<EventBehavior>(handler))
+    )
+  }
+}
+
+/**
+ * Wrap a pipeline with behaviors, in reverse order (last behavior wraps first)
+ */
+function wrapBehaviors<TEvent extends IEvent>(
+  pipeline: (event: TEvent) => Promise<Result<void>>,
+  behaviors: EventBehavior[]
+): (event: TEvent) => Promise<Result<void>> {
+  let wrapped = pipeline
+  for (let i = behaviors.length - 1; i >= 0; i--) {
+    const behavior = behaviors[i]
+    const next = wrapped
+    wrapped = async (evt) => behavior.handle(evt, next)
+  }
+
+  return wrapped
+}
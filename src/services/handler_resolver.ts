@@ -0,0 +1,119 @@
+import { HttpContext } from '@adonisjs/core/http'
+
+/**
+ * Lifetime of a handler registered by class
+ * - singleton: created on the first dispatch, then reused
+ * - request: created once per HTTP request, from the container resolver of the
+ *   request (so it can inject the HttpContext), and on every dispatch outside requests
+ * - transient: created on every dispatch
+ */
+export type HandlerScope = 'singleton' | 'request' | 'transient'
+
+/**
+ * Options of a handler registered by class
+ * - scope: lifetime of the handler, defaults to its "static scope" or "singleton"
+ */
+export interface HandlerRegistrationOptions {
+  scope?: HandlerScope
+}
+
+/**
+ * Class of a handler, resolved by the buses when a message is dispatched
+ */
+export type HandlerClass<THandler = unknown> = (new (...args: any[]) => THandler) & {
+  scope?: HandlerScope
+}
+
+/**
+ * Creates the handlers registered by class, e.g. the application container
+ */
+export interface HandlerResolver {
+  make(handlerClass: HandlerClass<any>): Promise<any>
+}
+
+/**
+ * Handler registered by class, created when a message is dispatched
+ */
+export class LazyHandler<THandler = unknown> {
+  #instance?: Promise<THandler>
+  #requestInstances = new WeakMap<HttpContext, Promise<THandler>>()
+
+  constructor(
+    readonly handlerClass: HandlerClass<THandler>,
+    readonly scope: HandlerScope = handlerClass.scope ?? 'singleton'
+  ) {}
+
+  /**
+   * Instance of the handler for the current dispatch
+   * @param resolver Creates the instance, the class is constructed without arguments otherwise
+   */
+  resolve(resolver?: HandlerResolver): Promise<THandler> {
+    if (this.scope === 'singleton') {
+      this.#instance ??= this.#make(resolver).catch((error) => {
+        this.#instance = undefined
+        throw error
+      })
+      return this.#instance
+    }
+
+    const ctx = this.scope === 'request' ? HttpContext.get() : null
+    if (!ctx) {
+      return this.#make(resolver)
+    }
+
+    let instance = this.#requestInstances.get(ctx)
+    if (!instance) {
+      instance = this.#make(ctx.containerResolver)
+      this.#requestInstances.set(ctx, instance)
+    }
+
+    return instance
+  }
+
+  async #make(resolver?: HandlerResolver): Promise<THandler> {
+    return resolver ? resolver.make(this.handlerClass) : new this.handlerClass()
+  }
+}
+
+/**
+ * Entry of a handler in a bus: the handler itself, or a LazyHandler
+ * when it is registered by class
+ */
+export function handlerEntry(handler: unknown, options: HandlerRegistrationOptions = {}): unknown {
+  return typeof handler === 'function'
+    ? new LazyHandler(handler as HandlerClass, options.scope)
+    : handler
+}
+
+/**
+ * Handler of an entry, created by the resolver when it is registered by class
+ */
+export async function resolveHandler<THandler>(
+  entry: unknown,
+  resolver?: HandlerResolver
+): Promise<THandler> {
+  return entry instanceof LazyHandler ? entry.resolve(resolver) : (entry as THandler)
+}
+
+/**
+ * Whether a handler instance was created from one of the entries registered
+ * by class, whatever the message. Handler base classes register themselves
+ * when constructed, under their class name when they declare no message,
+ * which must not add a registration next to the one of their class
+ */
+export function isResolvedFrom(entries: Iterable<unknown>, handler: unknown): boolean {
+  for (const entry of entries) {
+    if (entry instanceof LazyHandler && handler instanceof entry.handlerClass) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Object whose class names the handler of an entry, see "handlerName"
+ */
+export function handlerPrototype(entry: object): object {
+  return entry instanceof LazyHandler ? entry.handlerClass.prototype : entry
+}
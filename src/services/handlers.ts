@@ -1,59 +1,188 @@
 import { inject } from '@adonisjs/core'
+import type { CommandResult, QueryResult } from '../types.js'
 import type { ICommand, ICommandHandler, Result } from './command.js'
 import { CommandBus } from './command_bus.js'
+import type { IEvent, IEventHandler } from './event.js'
+import { EventBus } from './event_bus.js'
+import type { MessageIdentifier } from './message.js'
 import type { IQuery, IQueryHandler } from './query.js'
 import { QueryBus } from './query_bus.js'
+import type { UnwrapResult } from './result.js'
+
+/**
+ * Kind of message handled by a handler class
+ */
+export type HandlerKind = 'command' | 'query' | 'event'
+
+/**
+ * Messages handled by a handler class, declared with "@CommandHandler",
+ * "@QueryHandler" or "@EventHandler"
+ */
+export interface HandlerMetadata {
+  kind: HandlerKind
+  messages: MessageIdentifier<any>[]
+}
+
+/**
+ * Metadata recorded by the handler decorators, by class
+ */
+const handlerMetadataByClass = new WeakMap<object, HandlerMetadata>()
+
+function handlerDecorator(kind: HandlerKind, messages: MessageIdentifier<any>[]) {
+  return (target: abstract new (...args: any[]) => unknown): void => {
+    handlerMetadataByClass.set(target, { kind, messages })
+  }
+}
+
+/**
+ * Declare the command handled by a class, whatever the name of the class.
+ * The provider registers the decorated classes exported by the handler files
+ *
+ * @CommandHandler(CreateUserCommand)
+ * export class CreateUser implements ICommandHandler<CreateUserCommand> { ... }
+ */
+export function CommandHandler(command: MessageIdentifier<ICommand>) {
+  return handlerDecorator('command', [command])
+}
+
+/**
+ * Declare the query handled by a class, see "@CommandHandler"
+ */
+export function QueryHandler(query: MessageIdentifier<IQuery>) {
+  return handlerDecorator('query', [query])
+}
+
+/**
+ * Declare the events handled by a class, see "@CommandHandler"
+ */
+export function EventHandler(...events: MessageIdentifier<IEvent>[]) {
+  return handlerDecorator('event', events)
+}
+
+/**
+ * Messages handled by a handler class, from its decorator or, as a fallback,
+ * from its name ("CreateUserCommandHandler" handles "CreateUserCommand")
+ */
+export function handlerMetadata(handlerClass: Function): HandlerMetadata | undefined {
+  const metadata = handlerMetadataByClass.get(handlerClass)
+  if (metadata) {
+    return metadata
+  }
+
+  const match = handlerClass.name.match(/^(.+)(Command|Query|Event)Handler$/)
+  if (!match) {
+    return undefined
+  }
+
+  return {
+    kind: match[2].toLowerCase() as HandlerKind,
+    messages: [match[1] + match[2]],
+  }
+}
+
+/**
+ * Messages a handler base class registers itself for, its class name
+ * when they are not declared for the kind of its bus
+ */
+function handledMessages(handlerClass: Function, kind: HandlerKind): MessageIdentifier<any>[] {
+  const metadata = handlerMetadata(handlerClass)
+  return metadata?.kind === kind ? metadata.messages : [handlerClass.name]
+}
+
+/**
+ * Whether a handler class is declared with a handler decorator
+ */
+export function isDecoratedHandler(handlerClass: Function): boolean {
+  return handlerMetadataByClass.has(handlerClass)
+}
 
 /**
  * Abstract base class for command handlers
  * Provides automatic registration with the CommandBus
  * Handles can return void for fire-and-forget operations
+ * The result defaults to the one declared in the CommandRegistry (void otherwise)
  */
 @inject()
 export abstract class CommandHandlerBase<
   TCommand extends ICommand,
-> implements ICommandHandler<TCommand> {
+  TResult = CommandResult<TCommand>,
+> implements ICommandHandler<TCommand, TResult> {
   constructor(protected commandBus: CommandBus) {
     // Auto-register this handler with the command bus
-    const commandName = this.getCommandName()
-    commandBus.register(commandName, this as ICommandHandler<TCommand>)
+    for (const commandName of this.getCommandNames()) {
+      commandBus.register(commandName, this as ICommandHandler<TCommand, TResult>)
+    }
   }
 
   /**
    * Abstract handle method - override in subclasses
    * Return void for fire-and-forget, or Result<T> for operations that need to return data
    */
-  abstract handle(command: TCommand): Promise<Result<void>>
+  abstract handle(command: TCommand): Promise<Result<TResult>>
 
-  private getCommandName(): string {
-    // Extract command name from class name
+  private getCommandNames(): MessageIdentifier<any>[] {
+    // From "@CommandHandler", or from the class name
     // e.g., "UpdateUserProfileCommandHandler" -> "UpdateUserProfileCommand"
-    const match = this.constructor.name.match(/^(.+)CommandHandler$/)
-    return match ? match[1] + 'Command' : this.constructor.name
+    return handledMessages(this.constructor, 'command')
   }
 }
 
 /**
  * Abstract base class for query handlers
  * Provides automatic registration with the QueryBus
+ * The result defaults to the one declared in the QueryRegistry
  */
 @inject()
-export abstract class QueryHandlerBase<TQuery extends IQuery, TResult> implements IQueryHandler<
-  TQuery,
-  TResult
-> {
+export abstract class QueryHandlerBase<
+  TQuery extends IQuery,
+  TResult = QueryResult<TQuery>,
+> implements IQueryHandler<TQuery, TResult> {
   constructor(protected queryBus: QueryBus) {
     // Auto-register this handler with the query bus
-    const queryName = this.getQueryName()
-    queryBus.register(queryName, this as IQueryHandler<TQuery, TResult>)
+    for (const queryName of this.getQueryNames()) {
+      queryBus.register(queryName, this as IQueryHandler<TQuery, TResult>)
+    }
   }
 
   abstract handle(query: TQuery): Promise<TResult>
 
-  private getQueryName(): string {
-    // Extract query name from class name
-    // e.g., "GetUserProfileQueryHandler" -> "GetUserProfileQuery"
-    const match = this.constructor.name.match(/^(.+)QueryHandler$/)
-    return match ? match[1] + 'Query' : this.constructor.name
+  private getQueryNames(): MessageIdentifier<any>[] {
+    // From "@QueryHandler", or from the class name
+    // e.g., "UpdateUserProfileQueryHandler" -> "UpdateUserProfileQuery"
+    return handledMessages(this.constructor, 'query')
+  }
+}
+
+/**
+ * Abstract base class for query handlers returning a Result, like command handlers
+ * "queryBus.execute" returns the Err of the behaviors instead of throwing
+ * The value defaults to the one of the Result declared in the QueryRegistry
+ */
+export abstract class ResultQueryHandlerBase<
+  TQuery extends IQuery,
+  TValue = UnwrapResult<QueryResult<TQuery>>,
+> extends QueryHandlerBase<TQuery, Result<TValue>> {
+  readonly returnsResult = true
+}
+
+/**
+ * Abstract base class for event handlers
+ * Provides automatic registration with the EventBus
+ */
+@inject()
+export abstract class EventHandlerBase<TEvent extends IEvent> implements IEventHandler<TEvent> {
+  constructor(protected eventBus: EventBus) {
+    // Auto-register this handler with the event bus
+    for (const eventName of this.getEventNames()) {
+      eventBus.register(eventName, this as IEventHandler<TEvent>)
+    }
+  }
+
+  abstract handle(event: TEvent): Promise<void>
+
+  private getEventNames(): MessageIdentifier<any>[] {
+    // From "@EventHandler", or from the class name
+    // e.g., "UpdateUserProfileEventHandler" -> "UpdateUserProfileEvent"
+    return handledMessages(this.constructor, 'event')
   }
 }
@@ -0,0 +1,37 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import { toCqrError, type SerializedError } from './errors.js'
+import { Err } from './result.js'
+
+/**
+ * HTTP response describing the errors of a command or a query
+ */
+export interface ErrorResponse {
+  status: number
+  body: { errors: SerializedError[] }
+}
+
+/**
+ * Map errors to an HTTP response. Accepts an Err, a CQRError, a list of
+ * errors or anything thrown. The status is the one of the first error,
+ * e.g. 422 for a ValidationError or 500 for a HandlerNotFoundError
+ */
+export function toErrorResponse(errors: unknown): ErrorResponse {
+  const list =
+    errors instanceof Err
+      ? errors.getCqrErrors()
+      : (Array.isArray(errors) ? errors : [errors]).map((error) => toCqrError(error))
+
+  return {
+    status: list[0]?.status ?? 500,
+    body: { errors: list.map((error) => error.toJSON()) },
+  }
+}
+
+/**
+ * Send errors as a JSON response, from a controller receiving an Err
+ * or from the "handle" method of the application exception handler
+ */
+export function renderErrors(ctx: HttpContext, errors: unknown): void {
+  const { status, body } = toErrorResponse(errors)
+  ctx.response.status(status).send(body)
+}
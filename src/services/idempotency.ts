@@ -0,0 +1,176 @@
+import { HttpContext } from '@adonisjs/core/http'
+import { createHash } from 'node:crypto'
+import type { ICommand } from './command.js'
+import { CqrsContext } from './context.js'
+import { CQRError, type SerializedError } from './errors.js'
+import { messageName } from './message.js'
+import { stableStringify } from './query_cache.js'
+import { err, ok, type Result } from './result.js'
+
+/**
+ * A command carrying the idempotency key sent by the client
+ * (e.g. the "Idempotency-Key" header of the request)
+ */
+export interface IdempotentCommand extends ICommand {
+  readonly idempotencyKey: string
+}
+
+/**
+ * Result of a command as kept by an idempotency store
+ * Errors are serialized CQRErrors (plain messages for older records)
+ */
+export type StoredResult =
+  { ok: true; value: unknown } | { ok: false; errors: Array<SerializedError | string> }
+
+/**
+ * State of an idempotency key: reserved by the execution in progress,
+ * or completed with its result
+ */
+export type IdempotencyRecord =
+  { status: 'pending' } | { status: 'completed'; result: StoredResult }
+
+/**
+ * Storage of the idempotency keys and the results of their first execution
+ */
+export interface IdempotencyStore {
+  /**
+   * Reserve a key for an execution. Returns false when the key is
+   * already reserved or completed
+   * @param ttl Delay (in milliseconds) after which the reservation expires
+   */
+  reserve(key: string, ttl: number): Promise<boolean>
+
+  /**
+   * Returns the state of a key, or null when the key is unknown or expired
+   */
+  get(key: string): Promise<IdempotencyRecord | null>
+
+  /**
+   * Store the result of the execution holding the key
+   * @param ttl Delay (in milliseconds) during which the result is returned to duplicates
+   */
+  complete(key: string, result: StoredResult, ttl: number): Promise<void>
+
+  /**
+   * Forget a key, so the next duplicate is executed
+   */
+  release(key: string): Promise<void>
+}
+
+/**
+ * Returns the idempotency key of a command, prefixed by the command name
+ * - The "idempotencyKey" property of the command, hashed with its sender when
+ *   there is one, so two users sending the same key do not share a result
+ * - A hash of the command when its class declares "static idempotent = true",
+ *   independent of the order of its fields and scoped to its sender
+ * - The key computed by "static idempotent = (command) => key"
+ */
+export function resolveIdempotencyKey(command: ICommand): string | undefined {
+  const name = messageName(command)
+
+  if ('idempotencyKey' in command && typeof command.idempotencyKey === 'string') {
+    const { tenant, actor } = sender()
+
+    if (tenant === undefined && actor === undefined) {
+      return `${name}:${command.idempotencyKey}`
+    }
+
+    return `${name}:${hash({ tenant, actor, idempotencyKey: command.idempotencyKey })}`
+  }
+
+  const idempotent = (command.constructor as { idempotent?: unknown } | undefined)?.idempotent
+
+  if (idempotent === true) {
+    return `${name}:${hash({ ...sender(), command })}`
+  }
+
+  if (typeof idempotent === 'function') {
+    return `${name}:${idempotent(command)}`
+  }
+
+  return undefined
+}
+
+/**
+ * Who sends the current command: the tenant and the actor of the CqrsContext
+ * ("runAs"), or the authenticated user of the HTTP request. Actors are
+ * identified by their "id" when they have one
+ */
+function sender(): { tenant?: string; actor?: unknown } {
+  const context = CqrsContext.current()
+  const ctx = HttpContext.get() as (HttpContext & { auth?: { user?: unknown } }) | null
+  const actor = context?.actor !== undefined ? context.actor : ctx?.auth?.user
+
+  return {
+    tenant: context?.tenant,
+    actor: typeof actor === 'object' && actor !== null && 'id' in actor ? actor.id : actor,
+  }
+}
+
+/**
+ * SHA-256 of a value, independent of the order of its fields
+ */
+function hash(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex')
+}
+
+/**
+ * Converts a result to the form kept by the stores
+ */
+export function toStoredResult(result: Result<unknown>): StoredResult {
+  return result.isOk()
+    ? { ok: true, value: result.value }
+    : { ok: false, errors: result.getCqrErrors().map((error) => error.toJSON()) }
+}
+
+/**
+ * Rebuilds a result kept by a store
+ */
+export function fromStoredResult<TResult>(stored: StoredResult): Result<TResult> {
+  if (stored.ok) {
+    return ok(stored.value as TResult)
+  }
+
+  return err(
+    stored.errors.map((error) => (typeof error === 'string' ? error : CQRError.fromJSON(error)))
+  )
+}
+
+/**
+ * In-memory idempotency store. Keys are not shared between processes
+ * and are lost on restart
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  #records = new Map<string, { record: IdempotencyRecord; expiresAt: number }>()
+
+  async reserve(key: string, ttl: number): Promise<boolean> {
+    if (await this.get(key)) {
+      return false
+    }
+
+    this.#records.set(key, { record: { status: 'pending' }, expiresAt: Date.now() + ttl })
+    return true
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const entry = this.#records.get(key)
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.#records.delete(key)
+      return null
+    }
+
+    return entry.record
+  }
+
+  async complete(key: string, result: StoredResult, ttl: number): Promise<void> {
+    this.#records.set(key, {
+      record: { status: 'completed', result },
+      expiresAt: Date.now() + ttl,
+    })
+  }
+
+  async release(key: string): Promise<void> {
+    this.#records.delete(key)
+  }
+}
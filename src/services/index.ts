@@ -1,9 +1,36 @@
+export * from './authorization.js'
 export * from './behaviors.js'
+export * from './cache_idempotency_store.js'
 export * from './command.js'
 export * from './command_bus.js'
+export * from './context.js'
 export * from './cqrs_provider.js'
+export * from './database_idempotency_store.js'
+export * from './database_queue_driver.js'
+export * from './database_saga_store.js'
 export * from './errors.js'
+export * from './event.js'
+export * from './event_bus.js'
+export * from './handler_resolver.js'
 export * from './handlers.js'
+export * from './http_errors.js'
+export * from './idempotency.js'
+export * from './memory_queue_driver.js'
+export * from './message.js'
+export * from './metrics.js'
+export * from './outbox.js'
+export * from './outbox_relay.js'
 export * from './query.js'
 export * from './query_bus.js'
+export * from './query_cache.js'
+export * from './queue.js'
+export * from './queue_worker.js'
+export * from './redaction.js'
+export * from './redis_queue_driver.js'
+export * from './registrations.js'
 export * from './result.js'
+export * from './saga.js'
+export * from './saga_manager.js'
+export * from './scoped_behaviors.js'
+export * from './transaction.js'
+export * from './validation.js'
@@ -0,0 +1,79 @@
+import { randomUUID } from 'node:crypto'
+import type { QueueDriver, QueueJob, QueuedCommand } from './queue.js'
+
+/**
+ * A job waiting in the memory queue
+ */
+interface WaitingJob extends QueueJob {
+  availableAt: number
+}
+
+/**
+ * A job that ran out of attempts
+ */
+export interface FailedQueueJob extends QueueJob {
+  errors: string[]
+}
+
+/**
+ * In-memory queue driver. Jobs are lost when the process exits, so
+ * use it for tests or with a worker running in the same process
+ */
+export class MemoryQueueDriver implements QueueDriver {
+  #waiting = new Map<string, WaitingJob[]>()
+
+  /**
+   * Jobs that ran out of attempts
+   */
+  failed: FailedQueueJob[] = []
+
+  async push(command: QueuedCommand): Promise<string> {
+    const { availableAt, ...job } = command
+    const id = randomUUID()
+
+    this.#enqueue({ ...job, id, attempts: 0, availableAt })
+    return id
+  }
+
+  async pop(queue: string): Promise<QueueJob | null> {
+    const jobs = this.#waiting.get(queue) ?? []
+    const index = jobs.findIndex((job) => job.availableAt <= Date.now())
+
+    if (index === -1) {
+      return null
+    }
+
+    const [{ availableAt, ...job }] = jobs.splice(index, 1)
+    return job
+  }
+
+  async complete(): Promise<void> {
+    // Jobs are removed from the queue when reserved
+  }
+
+  async release(job: QueueJob, delay: number): Promise<void> {
+    this.#enqueue({ ...job, attempts: job.attempts + 1, availableAt: Date.now() + delay })
+  }
+
+  async fail(job: QueueJob, errors: string[]): Promise<void> {
+    this.failed.push({ ...job, attempts: job.attempts + 1, errors })
+  }
+
+  /**
+   * Number of jobs waiting in the queue
+   */
+  size(queue: string): number {
+    return this.#waiting.get(queue)?.length ?? 0
+  }
+
+  /**
+   * Keeps the jobs of a queue sorted by availability
+   */
+  #enqueue(job: WaitingJob): void {
+    const jobs = this.#waiting.get(job.queue) ?? []
+    const index = jobs.findIndex((waiting) => waiting.availableAt > job.availableAt)
+
+    jobs.splice(index === -1 ? jobs.length : index, 0, job)
+    this.#waiting.set(job.queue, jobs)
+  }
+}
@@ -0,0 +1,227 @@
+import { MessageSerializationError } from './errors.js'
+
+/**
+ * Explicit message type, declared with a "static readonly type" on a
+ * message class or a "type" property on a plain object message
+ */
+export type MessageType = string | symbol
+
+/**
+ * Constructor of a command, query or event class
+ */
+export type MessageClass<TMessage = unknown> = abstract new (...args: any[]) => TMessage
+
+/**
+ * Identifies the messages a handler is registered for. Either the message
+ * class itself, or an explicit message type. Strings matching the class
+ * name are supported for backward compatibility
+ */
+export type MessageIdentifier<TMessage = unknown> = MessageType | MessageClass<TMessage>
+
+/**
+ * JSON representation of a message, used to store it (outbox) and
+ * rebuild it before dispatching
+ */
+export interface SerializedMessage {
+  type: string
+  payload: Record<string, unknown>
+}
+
+/**
+ * Message classes handlers were registered for, by serialized type.
+ * Used to rebuild class instances from their serialized form
+ */
+const messageClasses = new Map<string, MessageClass>()
+
+/**
+ * Serialized types shared by several classes (e.g. two classes with the
+ * same name and no "static readonly type"), which cannot be rebuilt
+ */
+const ambiguousTypes = new Set<string>()
+
+function isMessageType(value: unknown): value is MessageType {
+  return typeof value === 'string' || typeof value === 'symbol'
+}
+
+function isPlainObject(message: object): boolean {
+  const prototype = Object.getPrototypeOf(message)
+  return prototype === null || prototype === Object.prototype
+}
+
+function assertUnambiguous(type: string): void {
+  if (ambiguousTypes.has(type)) {
+    throw new MessageSerializationError(
+      `Several message classes are serialized as "${type}", declare a unique "static readonly type" on them`
+    )
+  }
+}
+
+/**
+ * Returns the key under which a handler is stored. Classes declaring a
+ * "static readonly type" are stored by that type, so plain objects carrying
+ * the same type resolve to the same handler
+ */
+export function messageKey(identifier: MessageIdentifier): unknown {
+  if (typeof identifier === 'function') {
+    const type = (identifier as { type?: unknown }).type
+    return isMessageType(type) ? type : identifier
+  }
+
+  return identifier
+}
+
+/**
+ * Returns the keys a message may have been registered under, most
+ * specific first
+ * - Plain objects: their "type" property
+ * - Class instances: the static "type", the class itself and the class name
+ */
+export function messageKeys(message: object): unknown[] {
+  if (isPlainObject(message)) {
+    const type = (message as { type?: unknown }).type
+    return isMessageType(type) ? [type] : []
+  }
+
+  const messageClass = message.constructor as { type?: unknown; name: string }
+  const keys: unknown[] = []
+
+  if (isMessageType(messageClass.type)) {
+    keys.push(messageClass.type)
+  }
+
+  keys.push(messageClass, messageClass.name)
+  return keys
+}
+
+/**
+ * Human readable name of a message, used for logs and error messages
+ */
+export function messageName(message: object): string {
+  const [key] = messageKeys(message)
+
+  if (typeof key === 'string' || typeof key === 'symbol') {
+    return identifierName(key)
+  }
+
+  return message.constructor?.name ?? 'Object'
+}
+
+/**
+ * Human readable name of a message identifier, used for logs and error messages
+ */
+export function identifierName(identifier: MessageIdentifier): string {
+  if (typeof identifier === 'function') {
+    return identifier.name
+  }
+
+  return typeof identifier === 'symbol'
+    ? (identifier.description ?? identifier.toString())
+    : identifier
+}
+
+/**
+ * Human readable name of a handler: its class name, or "anonymous" for
+ * plain object handlers
+ */
+export function handlerName(handler: object): string {
+  const name = handler.constructor?.name
+  return name && name !== 'Object' ? name : 'anonymous'
+}
+
+/**
+ * Finds the handler registered for a message, and remembers the class
+ * of the message so it can be rebuilt once serialized
+ */
+export function findHandler<THandler>(
+  handlers: Map<unknown, THandler>,
+  message: object
+): THandler | undefined {
+  rememberMessageClassOf(message)
+
+  for (const key of messageKeys(message)) {
+    const handler = handlers.get(key)
+    if (handler) {
+      return handler
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Remembers a message class so its serialized form can be turned back
+ * into an instance. Called by the buses when a handler is registered
+ * or looked up, and by the provider for the discovered messages.
+ * A type remembered for two different classes is marked as ambiguous
+ */
+export function rememberMessageClass(identifier: MessageIdentifier): void {
+  if (typeof identifier !== 'function') {
+    return
+  }
+
+  const type = (identifier as { type?: unknown }).type
+  const serializedType = typeof type === 'string' ? type : identifier.name
+  const remembered = messageClasses.get(serializedType)
+
+  if (remembered && remembered !== identifier) {
+    ambiguousTypes.add(serializedType)
+  } else {
+    messageClasses.set(serializedType, identifier)
+  }
+}
+
+/**
+ * Remembers the class of a message instance, see "rememberMessageClass".
+ * Called when a message is dispatched or serialized, as its handler may be
+ * registered by a type that does not reference the class
+ */
+export function rememberMessageClassOf(message: object): void {
+  if (!isPlainObject(message)) {
+    rememberMessageClass(message.constructor as MessageClass)
+  }
+}
+
+/**
+ * Message class remembered for a serialized type, see "rememberMessageClass"
+ */
+export function rememberedMessageClass(type: string): MessageClass | undefined {
+  return messageClasses.get(type)
+}
+
+/**
+ * Serializes a message to JSON. Messages identified by a symbol cannot
+ * be serialized since symbols do not survive a round trip, neither can
+ * messages whose type is shared by several classes
+ */
+export function serializeMessage(message: object): SerializedMessage {
+  const [key] = messageKeys(message)
+  const type = typeof key === 'function' ? key.name : key
+
+  if (typeof type !== 'string') {
+    throw new MessageSerializationError(
+      `Cannot serialize message "${messageName(message)}" without a string type`
+    )
+  }
+
+  rememberMessageClassOf(message)
+  assertUnambiguous(type)
+
+  return { type, payload: JSON.parse(JSON.stringify(message)) }
+}
+
+/**
+ * Rebuilds a message from its serialized form. Returns an instance of the
+ * remembered class, or a plain object carrying the type otherwise
+ */
+export function deserializeMessage<TMessage extends object>(
+  serialized: SerializedMessage
+): TMessage {
+  assertUnambiguous(serialized.type)
+  const messageClass = messageClasses.get(serialized.type)
+
+  if (messageClass) {
+    return Object.assign(Object.create(messageClass.prototype), serialized.payload)
+  }
+
+  return { ...serialized.payload, type: serialized.type } as unknown as TMessage
+}
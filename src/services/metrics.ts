@@ -0,0 +1,187 @@
+import type { HttpContext, Router } from '@adonisjs/core/http'
+
+/**
+ * Kind of message measured by the metrics behaviors
+ */
+export type MetricsMessageKind = 'command' | 'query'
+
+/**
+ * Outcome of a dispatch
+ * - succeeded: the handler returned a value or an Ok
+ * - failed: an Err was returned (validation, authorization, domain errors...)
+ * - threw: the handler threw an unexpected error
+ */
+export type MetricsOutcome = 'succeeded' | 'failed' | 'threw'
+
+/**
+ * Options of the route serving the metrics
+ */
+export interface MetricsRouteOptions {
+  path: string
+  registry: MetricsRegistry
+}
+
+/**
+ * Upper bounds (in seconds) of the latency histogram buckets
+ */
+export const defaultLatencyBuckets: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+]
+
+/**
+ * Counters and latency histogram of one message type
+ */
+interface MessageSeries {
+  kind: MetricsMessageKind
+  message: string
+  counters: Record<'dispatched' | MetricsOutcome, number>
+  buckets: number[]
+  sum: number
+  count: number
+}
+
+const COUNTERS = [
+  { key: 'dispatched', name: 'cqrs_messages_dispatched_total', help: 'Messages dispatched' },
+  {
+    key: 'succeeded',
+    name: 'cqrs_messages_succeeded_total',
+    help: 'Messages handled successfully',
+  },
+  { key: 'failed', name: 'cqrs_messages_failed_total', help: 'Messages returning an Err' },
+  { key: 'threw', name: 'cqrs_messages_threw_total', help: 'Messages whose handler threw' },
+] as const
+
+const HISTOGRAM = 'cqrs_message_duration_seconds'
+
+/**
+ * Escape a label value of the Prometheus text format
+ */
+function escapeLabel(value: string): string {
+  return value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n')
+}
+
+/**
+ * In-memory metrics of the commands and queries, by message type,
+ * exposed in the Prometheus text format
+ */
+export class MetricsRegistry {
+  #series = new Map<string, MessageSeries>()
+
+  constructor(private buckets: readonly number[] = defaultLatencyBuckets) {}
+
+  /**
+   * Count a message entering the pipeline
+   */
+  dispatched(kind: MetricsMessageKind, message: string): void {
+    this.#get(kind, message).counters.dispatched++
+  }
+
+  /**
+   * Count the outcome of a message and record its latency
+   * @param duration Duration of the dispatch in seconds
+   */
+  observe(
+    kind: MetricsMessageKind,
+    message: string,
+    outcome: MetricsOutcome,
+    duration: number
+  ): void {
+    const series = this.#get(kind, message)
+    series.counters[outcome]++
+    series.sum += duration
+    series.count++
+
+    this.buckets.forEach((bound, index) => {
+      if (duration <= bound) {
+        series.buckets[index]++
+      }
+    })
+  }
+
+  /**
+   * Value of a counter, e.g. "registry.counter('command', 'CreateUser', 'failed')"
+   */
+  counter(kind: MetricsMessageKind, message: string, name: 'dispatched' | MetricsOutcome): number {
+    return this.#series.get(`${kind}:${message}`)?.counters[name] ?? 0
+  }
+
+  /**
+   * Forget every measure
+   */
+  reset(): void {
+    this.#series.clear()
+  }
+
+  /**
+   * Metrics in the Prometheus text exposition format
+   */
+  toPrometheus(): string {
+    const series = [...this.#series.values()]
+    const lines: string[] = []
+    const labels = ({ kind, message }: MessageSeries) =>
+      `kind="${kind}",message="${escapeLabel(message)}"`
+
+    for (const { key, name, help } of COUNTERS) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`)
+      for (const entry of series) {
+        lines.push(`${name}{${labels(entry)}} ${entry.counters[key]}`)
+      }
+    }
+
+    lines.push(`# HELP ${HISTOGRAM} Latency of the messages`, `# TYPE ${HISTOGRAM} histogram`)
+    for (const entry of series) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${HISTOGRAM}_bucket{${labels(entry)},le="${bound}"} ${entry.buckets[index]}`)
+      })
+      lines.push(
+        `${HISTOGRAM}_bucket{${labels(entry)},le="+Inf"} ${entry.count}`,
+        `${HISTOGRAM}_sum{${labels(entry)}} ${entry.sum}`,
+        `${HISTOGRAM}_count{${labels(entry)}} ${entry.count}`
+      )
+    }
+
+    return lines.join('\n') + '\n'
+  }
+
+  #get(kind: MetricsMessageKind, message: string): MessageSeries {
+    const key = `${kind}:${message}`
+    let series = this.#series.get(key)
+
+    if (!series) {
+      series = {
+        kind,
+        message,
+        counters: { dispatched: 0, succeeded: 0, failed: 0, threw: 0 },
+        buckets: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      }
+      this.#series.set(key, series)
+    }
+
+    return series
+  }
+}
+
+/**
+ * Registry used by the metrics behaviors and the metrics route by default
+ */
+export const metricsRegistry = new MetricsRegistry()
+
+/**
+ * Send the metrics in the Prometheus text format
+ */
+export function renderMetrics(ctx: HttpContext, registry: MetricsRegistry = metricsRegistry): void {
+  ctx.response
+    .header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+    .send(registry.toPrometheus())
+}
+
+/**
+ * Register the route scraped by Prometheus, in "start/routes.ts":
+ * "registerMetricsRoute(router).use(middleware.auth())"
+ */
+export function registerMetricsRoute(router: Router, options: Partial<MetricsRouteOptions> = {}) {
+  const { path = '/metrics', registry = metricsRegistry } = options
+  return router.get(path, (ctx) => renderMetrics(ctx, registry))
+}
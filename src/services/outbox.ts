@@ -0,0 +1,156 @@
+import type { Database } from '@adonisjs/lucid/database'
+import type { QueryClientContract, TransactionClientContract } from '@adonisjs/lucid/types/database'
+import type { OutboxConfig } from '../types.js'
+import type { ICommand } from './command.js'
+import type { IEvent } from './event.js'
+import { serializeMessage, type SerializedMessage } from './message.js'
+import { currentTransaction } from './transaction.js'
+
+/**
+ * Kind of message stored in the outbox
+ */
+export type OutboxMessageKind = 'command' | 'event'
+
+/**
+ * A message recorded in the outbox and not processed yet
+ */
+export interface OutboxMessage extends SerializedMessage {
+  id: number
+  kind: OutboxMessageKind
+  attempts: number
+}
+
+/**
+ * Options accepted when recording a message
+ */
+export interface OutboxRecordOptions {
+  /**
+   * Client to write with. Defaults to the transaction of the command
+   * being executed (see TransactionCommandBehavior)
+   */
+  client?: QueryClientContract
+}
+
+/**
+ * Outbox - records events and follow-up commands in the same transaction
+ * as the command writes, so they are dispatched (by the OutboxRelay) only
+ * once the transaction is committed
+ * Requires @adonisjs/lucid to be installed
+ */
+export class Outbox {
+  #commitListeners = new Set<() => void>()
+
+  constructor(
+    private db: Database,
+    private config: Pick<OutboxConfig, 'table' | 'maxAttempts' | 'backoff'>
+  ) {}
+
+  /**
+   * Record an event to publish once the current transaction is committed
+   */
+  async publish(event: IEvent, options?: OutboxRecordOptions): Promise<void> {
+    await this.#record('event', event, options)
+  }
+
+  /**
+   * Record a command to execute once the current transaction is committed
+   */
+  async dispatch(command: ICommand, options?: OutboxRecordOptions): Promise<void> {
+    await this.#record('command', command, options)
+  }
+
+  /**
+   * Register a listener called after a transaction that recorded
+   * messages is committed
+   */
+  onCommit(listener: () => void): () => void {
+    this.#commitListeners.add(listener)
+    return () => this.#commitListeners.delete(listener)
+  }
+
+  /**
+   * Returns the oldest messages waiting to be dispatched, except the failed
+   * messages whose backoff is not elapsed
+   */
+  async pending(limit: number): Promise<OutboxMessage[]> {
+    const rows = await this.db
+      .query()
+      .from(this.config.table)
+      .whereNull('processed_at')
+      .where('attempts', '<', this.config.maxAttempts)
+      .where('available_at', '<=', Date.now())
+      .orderBy('id', 'asc')
+      .limit(limit)
+
+    return rows.map((row) => ({
+      id: row.id,
+      kind: row.kind,
+      type: row.type,
+      payload: JSON.parse(row.payload),
+      attempts: row.attempts,
+    }))
+  }
+
+  /**
+   * Mark a message as dispatched
+   */
+  async markProcessed(message: OutboxMessage): Promise<void> {
+    await this.db
+      .query()
+      .from(this.config.table)
+      .where('id', message.id)
+      .update({ processed_at: new Date() })
+  }
+
+  /**
+   * Record a failed dispatch of a message, retried once the backoff
+   * (doubled after every failure) is elapsed
+   */
+  async markFailed(message: OutboxMessage, errors: string[]): Promise<void> {
+    await this.db
+      .query()
+      .from(this.config.table)
+      .where('id', message.id)
+      .update({
+        attempts: message.attempts + 1,
+        last_error: errors.join(', '),
+        available_at: Date.now() + this.config.backoff * 2 ** message.attempts,
+      })
+  }
+
+  /**
+   * Inserts a message using the current transaction when there is one
+   */
+  async #record(
+    kind: OutboxMessageKind,
+    message: object,
+    options?: OutboxRecordOptions
+  ): Promise<void> {
+    const client = options?.client ?? currentTransaction() ?? this.db.connection()
+    const { type, payload } = serializeMessage(message)
+
+    await client
+      .insertQuery()
+      .table(this.config.table)
+      .insert({
+        kind,
+        type,
+        payload: JSON.stringify(payload),
+        attempts: 0,
+        available_at: Date.now(),
+        created_at: new Date(),
+      })
+
+    if (client.isTransaction) {
+      ;(client as TransactionClientContract).after('commit', () => this.#notifyCommit())
+    } else {
+      this.#notifyCommit()
+    }
+  }
+
+  #notifyCommit(): void {
+    for (const listener of this.#commitListeners) {
+      listener()
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import type { Logger } from '@adonisjs/core/logger'
+import type { OutboxConfig } from '../types.js'
+import { defaultLogger } from './behaviors.js'
+import type { CommandBus } from './command_bus.js'
+import type { EventBus } from './event_bus.js'
+import { toCqrError } from './errors.js'
+import { deserializeMessage } from './message.js'
+import type { Outbox, OutboxMessage } from './outbox.js'
+import { err, type Result } from './result.js'
+
+/**
+ * Number of messages dispatched and failed by the relay
+ */
+export interface RelayReport {
+  dispatched: number
+  failed: number
+}
+
+/**
+ * OutboxRelay - dispatches the messages recorded in the outbox through the
+ * CommandBus and EventBus, then marks them as processed
+ *
+ * Delivery is at-least-once: a message dispatched right before the process
+ * dies is dispatched again, so handlers of relayed messages must be idempotent
+ */
+export class OutboxRelay {
+  #timer?: NodeJS.Timeout
+  #running?: Promise<RelayReport>
+  #stopCommitListener?: () => void
+
+  constructor(
+    private outbox: Outbox,
+    private commandBus: CommandBus,
+    private eventBus: EventBus,
+    private config: Pick<OutboxConfig, 'batchSize' | 'pollInterval'>,
+    private logger: Logger | null = null
+  ) {}
+
+  /**
+   * Dispatch one batch of pending messages
+   * @returns The number of messages dispatched successfully
+   */
+  async relay(): Promise<number> {
+    const { dispatched } = await this.#nextBatch()
+    return dispatched
+  }
+
+  /**
+   * Dispatch batches until no message is pending. Failed messages waiting
+   * for their backoff are left to a later run
+   */
+  async drain(): Promise<RelayReport> {
+    const report: RelayReport = { dispatched: 0, failed: 0 }
+    let batch: RelayReport
+
+    do {
+      batch = await this.#nextBatch()
+      report.dispatched += batch.dispatched
+      report.failed += batch.failed
+    } while (batch.dispatched + batch.failed > 0)
+
+    return report
+  }
+
+  /**
+   * Start polling the outbox. Messages are also relayed right after
+   * the transaction recording them is committed
+   */
+  start(): void {
+    if (this.isPolling) {
+      return
+    }
+
+    this.#stopCommitListener = this.outbox.onCommit(() => this.#schedule(0))
+    this.#schedule(0)
+  }
+
+  /**
+   * Stop polling and wait for the batch in progress
+   */
+  async stop(): Promise<void> {
+    clearTimeout(this.#timer)
+    this.#timer = undefined
+    this.#stopCommitListener?.()
+    this.#stopCommitListener = undefined
+
+    await this.#running
+  }
+
+  /**
+   * Whether the relay is polling the outbox
+   */
+  get isPolling(): boolean {
+    return this.#stopCommitListener !== undefined
+  }
+
+  #nextBatch(): Promise<RelayReport> {
+    // Never run two batches at the same time
+    if (!this.#running) {
+      this.#running = this.#relayBatch().finally(() => {
+        this.#running = undefined
+      })
+    }
+
+    return this.#running
+  }
+
+  async #relayBatch(): Promise<RelayReport> {
+    const messages = await this.outbox.pending(this.config.batchSize)
+    const report: RelayReport = { dispatched: 0, failed: 0 }
+
+    for (const message of messages) {
+      const result = await this.#dispatch(message)
+
+      if (result.isOk()) {
+        await this.outbox.markProcessed(message)
+        report.dispatched++
+      } else {
+        await this.outbox.markFailed(message, result.getErrors())
+        report.failed++
+      }
+    }
+
+    return report
+  }
+
+  async #dispatch(message: OutboxMessage): Promise<Result<unknown>> {
+    try {
+      const payload = deserializeMessage<any>(message)
+      return message.kind === 'event'
+        ? await this.eventBus.publish(payload)
+        : await this.commandBus.execute(payload)
+    } catch (error) {
+      return err([toCqrError(error, 'Outbox dispatch failed')])
+    }
+  }
+
+  #schedule(delay: number): void {
+    if (!this.isPolling) {
+      return
+    }
+
+    clearTimeout(this.#timer)
+    this.#timer = setTimeout(async () => {
+      try {
+        await this.relay()
+      } catch (error) {
+        const logger = this.logger ?? (await defaultLogger())
+        logger.error({ err: error }, '[CQRS] Failed to relay outbox messages')
+      }
+
+      this.#schedule(this.config.pollInterval)
+    }, delay)
+  }
+}
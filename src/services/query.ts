@@ -14,5 +14,11 @@ export interface IQuery {
  * @template TResult - The return type of the query
  */
 export interface IQueryHandler<TQuery extends IQuery, TResult> {
+  /**
+   * Set to true when the handler returns a Result, so errors of the
+   * pipeline are returned as an Err instead of being thrown
+   */
+  readonly returnsResult?: boolean
+
   handle(query: TQuery): Promise<TResult>
 }
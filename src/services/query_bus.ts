@@ -1,6 +1,52 @@
+import type { QueryHandlerResult, QueryResult } from '../types.js'
 import type { QueryBehavior } from './behaviors.js'
-import { HandlerNotFoundError } from './errors.js'
+import { CqrsContext, type CqrsMessageOptions } from './context.js'
+import {
+  DuplicateHandlerError,
+  HandlerNotFoundError,
+  QueryFailedError,
+  toCqrError,
+} from './errors.js'
+import {
+  handlerEntry,
+  handlerPrototype,
+  isResolvedFrom,
+  resolveHandler,
+  type HandlerClass,
+  type HandlerRegistrationOptions,
+  type HandlerResolver,
+} from './handler_resolver.js'
+import {
+  findHandler,
+  handlerName,
+  identifierName,
+  messageKey,
+  messageName,
+  rememberMessageClass,
+  type MessageClass,
+  type MessageIdentifier,
+} from './message.js'
 import type { IQuery, IQueryHandler } from './query.js'
+import {
+  handlerRegistration,
+  registrationBehaviors,
+  type HandlerRegistration,
+} from './registrations.js'
+import { Err, err, isResult, ok, ResultAsync, type Result, type UnwrapResult } from './result.js'
+import {
+  pipelineBehaviors,
+  scopedBehaviors,
+  type BehaviorOptions,
+  type PipelineBehavior,
+} from './scoped_behaviors.js'
+
+/**
+ * Handler accepted by "register" for a query identifier
+ */
+type QueryHandlerFor<TIdentifier, TResult> = IQueryHandler<
+  TIdentifier extends MessageClass<infer TQuery extends IQuery> ? TQuery : any,
+  QueryHandlerResult<TIdentifier, TResult>
+>
 
 /**
  * QueryBus - dispatches queries to their registered handlers
@@ -8,61 +54,207 @@ import type { IQuery, IQueryHandler } from './query.js'
  * NOTE: Do NOT add @inject() decorator - this is registered as a singleton in the provider
  */
 export class QueryBus {
-  private handlers = new Map<string, unknown>()
-  private behaviors: QueryBehavior[] = []
+  private handlers = new Map<unknown, unknown>()
+  private behaviors: PipelineBehavior<QueryBehavior>[] = []
+  private resolver?: HandlerResolver
+  private strict = false
 
   /**
    * Register a handler for a specific query type
+   * The query is identified by its class, its "static readonly type"
+   * or, for backward compatibility, its class name
+   * In strict mode, registering a second handler for a query throws a
+   * DuplicateHandlerError instead of replacing the first one
+   * Queries declared in the QueryRegistry must be registered with a
+   * handler returning the declared result
+   * A handler class is created by the resolver when a query is executed,
+   * and reused according to its scope
    */
-  register<TQuery extends IQuery, TResult>(
-    queryIdentifier: string,
-    handler: IQueryHandler<TQuery, TResult>
+  register<TIdentifier extends MessageIdentifier<IQuery>, TResult>(
+    queryIdentifier: TIdentifier,
+    handler:
+      QueryHandlerFor<TIdentifier, TResult> | HandlerClass<QueryHandlerFor<TIdentifier, TResult>>,
+    options: HandlerRegistrationOptions = {}
   ): void {
-    this.handlers.set(queryIdentifier, handler)
+    rememberMessageClass(queryIdentifier)
+
+    const key = messageKey(queryIdentifier)
+    const existing = this.handlers.get(key)
+    if (existing === handler || isResolvedFrom(this.handlers.values(), handler)) {
+      return
+    }
+
+    if (existing && this.strict) {
+      throw new DuplicateHandlerError('query', identifierName(queryIdentifier))
+    }
+
+    this.handlers.set(key, handlerEntry(handler, options))
+  }
+
+  /**
+   * Throw when a second handler is registered for a query
+   */
+  useStrictMode(strict: boolean = true): void {
+    this.strict = strict
+  }
+
+  /**
+   * Whether a handler is registered for the queries of a class
+   */
+  hasHandler(queryClass: MessageClass): boolean {
+    return findHandler(this.handlers, Object.create(queryClass.prototype)) !== undefined
+  }
+
+  /**
+   * Set the resolver creating the handlers registered by class
+   */
+  useResolver(resolver: HandlerResolver): void {
+    this.resolver = resolver
+  }
+
+  /**
+   * Handlers registered on the bus, one by query
+   */
+  registrations(): HandlerRegistration[] {
+    return [...this.handlers].map(([key, entry]) =>
+      handlerRegistration('query', key, entry as object)
+    )
+  }
+
+  /**
+   * Behaviors of the bus or, given a registration, of the pipeline of its
+   * handler, in order. Behaviors restricted with "when" are included
+   */
+  pipeline(registration?: HandlerRegistration): PipelineBehavior<QueryBehavior>[] {
+    return registrationBehaviors(this.behaviors, registration)
   }
 
   /**
    * Add a pipeline behavior (middleware) to the query execution
-   * Behaviors are executed in order before the handler
+   * Behaviors are executed in order before the handler, "when" restricts
+   * a behavior to the queries matching the predicate
    */
-  use(behavior: QueryBehavior): void {
-    this.behaviors.push(behavior)
+  use(behavior: QueryBehavior, options: BehaviorOptions = {}): void {
+    this.behaviors.push({ behavior, when: options.when })
   }
 
   /**
    * Execute a query by dispatching it to its registered handler
+   * The result type is inferred from the QueryRegistry when the query is declared in it,
+   * otherwise it can be given explicitly (e.g. "execute<User>(query)")
+   * A behavior short-circuiting with an Err throws a QueryFailedError, unless
+   * the handler returns results ("returnsResult"), in which case the Err is returned
+   * The query is handled in a child of the current CqrsContext
    */
-  async execute<TResult>(query: IQuery): Promise<TResult> {
-    const queryIdentifier = query.constructor.name
+  execute<TQuery extends IQuery>(query: TQuery): Promise<QueryResult<TQuery>>
+  execute<TResult>(query: IQuery): Promise<TResult>
+  execute<TResult>(query: IQuery): Promise<TResult> {
+    const entry = findHandler(this.handlers, query) as object | undefined
 
-    const handler = this.handlers.get(queryIdentifier) as IQueryHandler<any, TResult> | undefined
+    return CqrsContext.runChild(
+      () => this.executeQuery<TResult>(query, entry),
+      this.messageOptions(query, entry)
+    )
+  }
 
-    if (!handler) {
-      throw new HandlerNotFoundError('query', queryIdentifier)
+  /**
+   * Run a query through the pipeline of its handler, see "execute"
+   */
+  private async executeQuery<TResult>(query: IQuery, entry: object | undefined): Promise<TResult> {
+    if (!entry) {
+      throw new HandlerNotFoundError('query', messageName(query))
     }
 
+    const handler = await resolveHandler<IQueryHandler<any, TResult>>(entry, this.resolver)
+
     // Build the pipeline: behaviors -> handler
     const pipeline = this.buildPipeline<TResult>(query, handler)
 
     // Execute the pipeline
-    return pipeline(query)
+    const result = await pipeline(query)
+
+    if (result instanceof Err && !handler.returnsResult) {
+      const [first] = result.getCqrErrors()
+      throw new QueryFailedError(messageName(query), result.getErrors(), {
+        status: first?.status,
+        details: first?.details,
+        cause: first,
+      })
+    }
+
+    return result as TResult
+  }
+
+  /**
+   * Execute a query and return a Result, like CommandBus.execute
+   * A missing handler, a thrown error or an Err returned by a behavior
+   * becomes an Err. Results returned by the handler are not wrapped again
+   */
+  tryExecute<TQuery extends IQuery>(query: TQuery): ResultAsync<UnwrapResult<QueryResult<TQuery>>>
+  tryExecute<TResult>(query: IQuery): ResultAsync<TResult>
+  tryExecute<TResult>(query: IQuery): ResultAsync<TResult> {
+    const entry = findHandler(this.handlers, query) as object | undefined
+
+    return new ResultAsync(
+      CqrsContext.runChild(
+        () => this.tryExecuteQuery<TResult>(query, entry),
+        this.messageOptions(query, entry)
+      )
+    )
+  }
+
+  /**
+   * Run a query through the pipeline of its handler, see "tryExecute"
+   */
+  private async tryExecuteQuery<TResult>(
+    query: IQuery,
+    entry: object | undefined
+  ): Promise<Result<TResult>> {
+    if (!entry) {
+      return err([new HandlerNotFoundError('query', messageName(query))])
+    }
+
+    try {
+      const handler = await resolveHandler<IQueryHandler<any, TResult>>(entry, this.resolver)
+      const result = await this.buildPipeline<TResult>(query, handler)(query)
+      return isResult(result) ? (result as Result<TResult>) : ok(result)
+    } catch (error) {
+      return err([toCqrError(error, 'Query execution failed')])
+    }
+  }
+
+  /**
+   * Names of the query and its handler, recorded in the CqrsContext
+   */
+  private messageOptions(query: IQuery, entry: object | undefined): CqrsMessageOptions {
+    return {
+      messageName: messageName(query),
+      handlerName: entry && handlerName(handlerPrototype(entry)),
+    }
   }
 
   /**
    * Build the execution pipeline with behaviors
    */
   private buildPipeline<TResult>(
-    _query: IQuery,
+    query: IQuery,
     handler: IQueryHandler<any, TResult>
-  ): (query: IQuery) => Promise<TResult> {
+  ): (query: IQuery) => Promise<TResult | Result<never>> {
     // Start with the handler
-    let pipeline: (query: IQuery) => Promise<TResult> = (q) => handler.handle(q)
+    let pipeline: (query: IQuery) => Promise<TResult | Result<never>> = (q) => handler.handle(q)
+
+    // Behaviors of the bus, then of the query class, then of the handler class
+    const behaviors = pipelineBehaviors(query, [
+      ...this.behaviors,
+      ...scopedBehaviors<QueryBehavior>(query),
+      ...scopedBehaviors<QueryBehavior>(handler),
+    ])
 
     // Wrap with behaviors in reverse order (last behavior wraps first)
-    for (let i = this.behaviors.length - 1; i >= 0; i--) {
-      const behavior = this.behaviors[i]
+    for (let i = behaviors.length - 1; i >= 0; i--) {
+      const behavior = behaviors[i]
       const next = pipeline
-      pipeline = async (q) => behavior.handle(q, next)
+      pipeline = async (q) => behavior.handle(q, next as (query: IQuery) => Promise<TResult>)
     }
 
     return pipeline
@@ -0,0 +1,113 @@
+import { createHash } from 'node:crypto'
+import type { ICommand } from './command.js'
+import { messageName } from './message.js'
+import type { IQuery } from './query.js'
+
+/**
+ * Cache settings of a query, declared as "static cache" on its class
+ * - ttl: lifetime of the cached result, in seconds or as a duration ("5m")
+ * - key: key of the result, defaults to a hash of the query fields
+ * - tags: tags of the result, invalidated by the commands declaring them
+ *
+ * "static cache = false" disables the cache for the query
+ */
+export interface QueryCacheOptions<TQuery extends IQuery = any> {
+  ttl?: number | string
+  key?: (query: TQuery) => string
+  tags?: readonly string[] | ((query: TQuery) => readonly string[])
+}
+
+/**
+ * Tags invalidated by a command when it succeeds, declared as "static invalidates"
+ * on its class: "static invalidates = ['users']" or
+ * "static invalidates = (command) => [`user:${command.id}`]"
+ */
+export type CacheInvalidation<TCommand extends ICommand = any> =
+  readonly string[] | ((command: TCommand) => readonly string[])
+
+/**
+ * Cache entry of a query, see "resolveQueryCache"
+ */
+export interface QueryCacheEntry {
+  key: string
+  ttl: string
+  tags: string[]
+}
+
+/**
+ * JSON serialization of a value independent of the order of its keys.
+ * Dates are serialized as ISO strings, bigints as strings, maps and sets as arrays
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(normalize(value)) ?? 'undefined'
+}
+
+function normalize(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return `${value}n`
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+
+  if (value instanceof Map) {
+    return [...value.entries()].map(normalize)
+  }
+
+  if (value instanceof Set || Array.isArray(value)) {
+    return [...value].map(normalize)
+  }
+
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return normalize((value as { toJSON(): unknown }).toJSON())
+  }
+
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, normalize((value as Record<string, unknown>)[key])])
+  )
+}
+
+/**
+ * Returns how to cache the result of a query, or undefined when the query
+ * is not cached ("static cache = false" or a "useCache = false" property)
+ * @param ttl Lifetime used when the query does not declare one, in seconds
+ */
+export function resolveQueryCache(query: IQuery, ttl: number): QueryCacheEntry | undefined {
+  if ('useCache' in query && query.useCache === false) {
+    return undefined
+  }
+
+  const options = (query.constructor as { cache?: QueryCacheOptions | false } | undefined)?.cache
+  if (options === false) {
+    return undefined
+  }
+
+  const name = messageName(query)
+  const key = options?.key
+    ? options.key(query)
+    : createHash('sha256').update(stableStringify(query)).digest('hex')
+  const tags = typeof options?.tags === 'function' ? options.tags(query) : options?.tags
+
+  return {
+    key: `query:${name}:${key}`,
+    ttl: typeof options?.ttl === 'string' ? options.ttl : `${options?.ttl ?? ttl} seconds`,
+    tags: [...(tags ?? [])],
+  }
+}
+
+/**
+ * Returns the tags invalidated by a command ("static invalidates")
+ */
+export function resolveInvalidatedTags(command: ICommand): string[] {
+  const invalidates = (command.constructor as { invalidates?: CacheInvalidation } | undefined)
+    ?.invalidates
+
+  return [...((typeof invalidates === 'function' ? invalidates(command) : invalidates) ?? [])]
+}
@@ -0,0 +1,73 @@
+import type { SerializedMessage } from './message.js'
+
+/**
+ * Options accepted by "commandBus.dispatch"
+ */
+export interface DispatchOptions {
+  /**
+   * Delay (in milliseconds) before the command can be executed
+   */
+  delay?: number
+
+  /**
+   * Queue receiving the command. Defaults to the configured default queue
+   */
+  queue?: string
+}
+
+/**
+ * A serialized command pushed to a queue
+ */
+export interface QueuedCommand extends SerializedMessage {
+  queue: string
+
+  /**
+   * Timestamp (in milliseconds) from which the command can be executed
+   */
+  availableAt: number
+}
+
+/**
+ * A command reserved by a worker
+ */
+export interface QueueJob extends SerializedMessage {
+  id: string
+  queue: string
+
+  /**
+   * Number of failed executions so far
+   */
+  attempts: number
+}
+
+/**
+ * Storage backing the queued commands. Implement it to plug another
+ * queue (SQS, RabbitMQ, ...) into the CommandBus
+ */
+export interface QueueDriver {
+  /**
+   * Add a command to the queue
+   * @returns The id of the job
+   */
+  push(command: QueuedCommand): Promise<string>
+
+  /**
+   * Reserve the next available job of the queue, so no other worker runs it
+   */
+  pop(queue: string): Promise<QueueJob | null>
+
+  /**
+   * Remove a job executed successfully
+   */
+  complete(job: QueueJob): Promise<void>
+
+  /**
+   * Make a failed job available again after the given delay (in milliseconds)
+   */
+  release(job: QueueJob, delay: number, errors: string[]): Promise<void>
+
+  /**
+   * Move a job out of the queue once it ran out of attempts
+   */
+  fail(job: QueueJob, errors: string[]): Promise<void>
+}
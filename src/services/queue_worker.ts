@@ -0,0 +1,132 @@
+import type { Logger } from '@adonisjs/core/logger'
+import type { QueueConfig } from '../types.js'
+import { defaultLogger } from './behaviors.js'
+import type { CommandBus } from './command_bus.js'
+import { toCqrError } from './errors.js'
+import { deserializeMessage } from './message.js'
+import type { QueueDriver, QueueJob } from './queue.js'
+import { err, type Result } from './result.js'
+
+/**
+ * QueueWorker - executes the commands queued with "commandBus.dispatch"
+ * through the CommandBus, so they run through the same behaviors as
+ * the commands executed in-process
+ *
+ * Failed commands are retried with a linear backoff until they run out of
+ * attempts, then handed to "driver.fail"
+ */
+export class QueueWorker {
+  #queues?: string[]
+  #timer?: NodeJS.Timeout
+  #running?: Promise<boolean>
+
+  constructor(
+    private commandBus: CommandBus,
+    private driver: QueueDriver,
+    private config: Pick<QueueConfig, 'maxAttempts' | 'backoff' | 'pollInterval'>,
+    private logger: Logger | null = null
+  ) {}
+
+  /**
+   * Execute the next available job of the queue
+   * @returns Whether a job was executed
+   */
+  async work(queue: string): Promise<boolean> {
+    const job = await this.driver.pop(queue)
+    if (!job) {
+      return false
+    }
+
+    const result = await this.#execute(job)
+
+    if (result.isOk()) {
+      await this.driver.complete(job)
+      return true
+    }
+
+    const attempts = job.attempts + 1
+    if (attempts >= this.config.maxAttempts) {
+      await this.driver.fail(job, result.getErrors())
+    } else {
+      await this.driver.release(job, this.config.backoff * attempts, result.getErrors())
+    }
+
+    return true
+  }
+
+  /**
+   * Start consuming the given queues, in priority order
+   */
+  start(queues: string[]): void {
+    if (this.isRunning) {
+      return
+    }
+
+    this.#queues = queues
+    this.#schedule(0)
+  }
+
+  /**
+   * Stop consuming the queues and wait for the job in progress
+   */
+  async stop(): Promise<void> {
+    clearTimeout(this.#timer)
+    this.#timer = undefined
+    this.#queues = undefined
+
+    await this.#running
+  }
+
+  /**
+   * Whether the worker is consuming queues
+   */
+  get isRunning(): boolean {
+    return this.#queues !== undefined
+  }
+
+  async #execute(job: QueueJob): Promise<Result<unknown>> {
+    try {
+      return await this.commandBus.execute(deserializeMessage<any>(job))
+    } catch (error) {
+      return err([toCqrError(error, 'Queued command failed')])
+    }
+  }
+
+  /**
+   * Works one job of the first queue having one
+   */
+  async #workNext(queues: string[]): Promise<boolean> {
+    for (const queue of queues) {
+      if (await this.work(queue)) {
+        return true
+      }
+    }
+
+    return false
+  }
+
+  #schedule(delay: number): void {
+    const queues = this.#queues
+    if (!queues) {
+      return
+    }
+
+    clearTimeout(this.#timer)
+    this.#timer = setTimeout(async () => {
+      let worked = false
+
+      try {
+        this.#running = this.#workNext(queues)
+        worked = await this.#running
+      } catch (error) {
+        const logger = this.logger ?? (await defaultLogger())
+        logger.error({ err: error, queues }, '[CQRS] Failed to work queued commands')
+      } finally {
+        this.#running = undefined
+      }
+
+      // Keep going while there are jobs, poll otherwise
+      this.#schedule(worked ? 0 : this.config.pollInterval)
+    }, delay)
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Value replacing the sensitive fields of a message
+ */
+export const REDACTED = '[REDACTED]'
+
+/**
+ * Fields redacted by default from the payload recorded for a message,
+ * compared case-insensitively
+ */
+export const defaultSensitiveFields: readonly string[] = [
+  'password',
+  'passwordConfirmation',
+  'secret',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'apiKey',
+  'authorization',
+  'cardNumber',
+  'cvv',
+]
+
+/**
+ * Properties marked with "@Sensitive()", by class
+ */
+const sensitiveProperties = new WeakMap<object, Set<string>>()
+
+/**
+ * Mark a property of a command, a query or an event as sensitive:
+ * its value is redacted from the logs and the traces
+ *
+ * class CreateUser implements ICommand {
+ *   @Sensitive() declare password: string
+ * }
+ */
+export function Sensitive() {
+  return (target: object, property: string | symbol): void => {
+    if (typeof property === 'string') {
+      const properties = sensitiveProperties.get(target.constructor) ?? new Set<string>()
+      sensitiveProperties.set(target.constructor, properties.add(property))
+    }
+  }
+}
+
+/**
+ * Properties marked with "@Sensitive()" on the class of a value and its parents
+ */
+function markedProperties(value: object): Set<string> {
+  const properties = new Set<string>()
+  let prototype = Object.getPrototypeOf(value)
+
+  while (prototype && prototype !== Object.prototype) {
+    for (const property of sensitiveProperties.get(prototype.constructor) ?? []) {
+      properties.add(property)
+    }
+    prototype = Object.getPrototypeOf(prototype)
+  }
+
+  return properties
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === null || prototype === Object.prototype
+}
+
+/**
+ * Whether a field holds sensitive data. The field is given by its path in the
+ * message (e.g. "user.password"), and the sensitive fields are either:
+ * - A field name, matching the field at any depth ("password")
+ * - A path from the root of the message, "*" matching any field ("user.*.token")
+ * Items of arrays share the path of the array
+ */
+export function isSensitiveField(
+  path: string,
+  sensitiveFields: readonly string[] = defaultSensitiveFields
+): boolean {
+  const segments = path.toLowerCase().split('.')
+
+  return sensitiveFields.some((sensitive) => {
+    const expected = sensitive.toLowerCase().split('.')
+
+    if (expected.length === 1) {
+      return expected[0] === segments.at(-1)
+    }
+
+    return (
+      expected.length === segments.length &&
+      expected.every((segment, index) => segment === '*' || segment === segments[index])
+    )
+  })
+}
+
+/**
+ * Copy of the fields of a message with the sensitive ones replaced by "[REDACTED]",
+ * including in nested plain objects and arrays. Fields marked with "@Sensitive()"
+ * are always redacted
+ */
+export function redactMessage(
+  message: object,
+  sensitiveFields: readonly string[] = defaultSensitiveFields
+): Record<string, unknown> {
+  return redactObject(message, [], sensitiveFields)
+}
+
+function redactObject(
+  value: object,
+  path: string[],
+  sensitiveFields: readonly string[]
+): Record<string, unknown> {
+  const marked = markedProperties(value)
+
+  return Object.fromEntries(
+    Object.entries(value).map(([field, fieldValue]) => {
+      const fieldPath = [...path, field]
+      const sensitive = marked.has(field) || isSensitiveField(fieldPath.join('.'), sensitiveFields)
+
+      return [field, sensitive ? REDACTED : redactValue(fieldValue, fieldPath, sensitiveFields)]
+    })
+  )
+}
+
+/**
+ * Nested values are redacted when they are plain objects, arrays or
+ * instances of classes having "@Sensitive()" properties
+ */
+function redactValue(value: unknown, path: string[], sensitiveFields: readonly string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, path, sensitiveFields))
+  }
+
+  if (
+    isPlainObject(value) ||
+    (typeof value === 'object' && value && markedProperties(value).size)
+  ) {
+    return redactObject(value, path, sensitiveFields)
+  }
+
+  return value
+}
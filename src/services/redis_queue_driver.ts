@@ -0,0 +1,105 @@
+import type { Connection } from '@adonisjs/redis/types'
+import { randomUUID } from 'node:crypto'
+import type { QueueConfig } from '../types.js'
+import type { QueueDriver, QueueJob, QueuedCommand } from './queue.js'
+
+/**
+ * Moves the reservations that expired back to the waiting jobs, then
+ * reserves the oldest available job. Runs atomically on the server
+ */
+const POP_SCRIPT = `
+local expired = redis.call('zrangebyscore', KEYS[2], '-inf', ARGV[1])
+for _, id in ipairs(expired) do
+  redis.call('zrem', KEYS[2], id)
+  redis.call('zadd', KEYS[1], ARGV[1], id)
+end
+local id = redis.call('zrangebyscore', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 1)[1]
+if not id then
+  return false
+end
+redis.call('zrem', KEYS[1], id)
+redis.call('zadd', KEYS[2], ARGV[2], id)
+return redis.call('hget', KEYS[3], id)
+`
+
+/**
+ * Queue driver storing the jobs in Redis
+ * - "{prefix}:{queue}" sorted set of the waiting job ids, scored by availability
+ * - "{prefix}:{queue}:reserved" sorted set of the reserved job ids, scored by expiration
+ * - "{prefix}:{queue}:failed" list of the jobs that ran out of attempts
+ * - "{prefix}:jobs" hash of the jobs by id
+ *
+ * Requires @adonisjs/redis to be installed
+ */
+export class RedisQueueDriver implements QueueDriver {
+  constructor(
+    private redis: Connection,
+    private config: Pick<QueueConfig, 'retryAfter'> & { prefix?: string }
+  ) {}
+
+  async push(command: QueuedCommand): Promise<string> {
+    const { availableAt, ...job } = command
+    const id = randomUUID()
+
+    await this.redis.hset(this.#jobsKey(), id, JSON.stringify({ ...job, id, attempts: 0 }))
+    await this.redis.zadd(this.#waitingKey(command.queue), availableAt, id)
+
+    return id
+  }
+
+  async pop(queue: string): Promise<QueueJob | null> {
+    const now = Date.now()
+    const job = (await this.redis.eval(
+      POP_SCRIPT,
+      3,
+      this.#waitingKey(queue),
+      this.#reservedKey(queue),
+      this.#jobsKey(),
+      now,
+      now + this.config.retryAfter
+    )) as string | null
+
+    return job ? JSON.parse(job) : null
+  }
+
+  async complete(job: QueueJob): Promise<void> {
+    await this.redis.zrem(this.#reservedKey(job.queue), job.id)
+    await this.redis.hdel(this.#jobsKey(), job.id)
+  }
+
+  async release(job: QueueJob, delay: number, errors: string[]): Promise<void> {
+    const released = { ...job, attempts: job.attempts + 1, lastError: errors.join(', ') }
+
+    await this.redis.hset(this.#jobsKey(), job.id, JSON.stringify(released))
+    await this.redis.zrem(this.#reservedKey(job.queue), job.id)
+    await this.redis.zadd(this.#waitingKey(job.queue), Date.now() + delay, job.id)
+  }
+
+  async fail(job: QueueJob, errors: string[]): Promise<void> {
+    const failed = { ...job, attempts: job.attempts + 1, errors, failedAt: Date.now() }
+
+    await this.redis.rpush(this.#failedKey(job.queue), JSON.stringify(failed))
+    await this.redis.zrem(this.#reservedKey(job.queue), job.id)
+    await this.redis.hdel(this.#jobsKey(), job.id)
+  }
+
+  #prefix(): string {
+    return this.config.prefix ?? 'cqrs:queue'
+  }
+
+  #jobsKey(): string {
+    return `${this.#prefix()}:jobs`
+  }
+
+  #waitingKey(queue: string): string {
+    return `${this.#prefix()}:${queue}`
+  }
+
+  #reservedKey(queue: string): string {
+    return `${this.#waitingKey(queue)}:reserved`
+  }
+
+  #failedKey(queue: string): string {
+    return `${this.#waitingKey(queue)}:failed`
+  }
+}
@@ -0,0 +1,83 @@
+import { LazyHandler, handlerPrototype, type HandlerScope } from './handler_resolver.js'
+import type { HandlerKind } from './handlers.js'
+import {
+  handlerName,
+  identifierName,
+  rememberedMessageClass,
+  type MessageClass,
+} from './message.js'
+import { classScopedBehaviors, type PipelineBehavior } from './scoped_behaviors.js'
+
+/**
+ * Handler registered on a bus, as returned by "registrations()"
+ * - message: name of the handled message
+ * - messageClass: class of the message, when it is known
+ * - handler: class name of the handler, "anonymous" for plain objects
+ * - scope: lifetime of the handlers registered by class
+ * - source: file the handler was discovered in
+ */
+export interface HandlerRegistration {
+  kind: HandlerKind
+  message: string
+  messageClass?: MessageClass
+  handler: string
+  handlerClass?: Function
+  scope?: HandlerScope
+  source?: string
+}
+
+/**
+ * Files the discovered handler classes were imported from
+ */
+const handlerSources = new WeakMap<Function, string>()
+
+/**
+ * Remember the file a handler class was discovered in. Called by the provider
+ */
+export function rememberHandlerSource(handlerClass: Function, source: string): void {
+  handlerSources.set(handlerClass, source)
+}
+
+/**
+ * Describe the handler stored under a key of a bus
+ */
+export function handlerRegistration(
+  kind: HandlerKind,
+  key: unknown,
+  entry: object
+): HandlerRegistration {
+  const prototype = handlerPrototype(entry)
+  const handlerClass = prototype.constructor === Object ? undefined : prototype.constructor
+  const messageClass =
+    typeof key === 'function'
+      ? (key as MessageClass)
+      : typeof key === 'string'
+        ? rememberedMessageClass(key)
+        : undefined
+
+  return {
+    kind,
+    message: typeof key === 'function' ? key.name : identifierName(key as string | symbol),
+    messageClass,
+    handler: handlerName(prototype),
+    handlerClass,
+    scope: entry instanceof LazyHandler ? entry.scope : undefined,
+    source: handlerClass && handlerSources.get(handlerClass),
+  }
+}
+
+/**
+ * Behaviors of the pipeline of a registered handler: the behaviors of the bus,
+ * then of the message class, then of the handler class. Behaviors restricted
+ * with "when" are included with their predicate
+ */
+export function registrationBehaviors<TBehavior>(
+  behaviors: PipelineBehavior<TBehavior>[],
+  registration?: HandlerRegistration
+): PipelineBehavior<TBehavior>[] {
+  return [
+    ...behaviors,
+    ...classScopedBehaviors<TBehavior>(registration?.messageClass),
+    ...classScopedBehaviors<TBehavior>(registration?.handlerClass),
+  ]
+}
@@ -1,16 +1,32 @@
+import { CQRError, toCqrError, ValidationError, type CQRErrorOptions } from './errors.js'
+
 /**
  * Result type for operations that can fail
  * Inspired by Rust's Result<T, E> and .NET's Result pattern
  *
  * @template TSuccess - The success value type
- * @template TError - The error type (defaults to string[])
+ * @template TError - The error type (defaults to CQRError[])
+ */
+export type Result<TSuccess, TError = CQRError[]> = Ok<TSuccess, TError> | Err<TError, TSuccess>
+
+/**
+ * Success value of a Result, or the type itself when it is not a Result
  */
-export type Result<TSuccess, TError = string[]> = Ok<TSuccess, TError> | Err<TError>
+export type UnwrapResult<T> =
+  T extends Ok<infer TSuccess, any> ? TSuccess : T extends Err<any, any> ? never : T
+
+/**
+ * Handlers given to "match", one for each outcome
+ */
+export interface MatchHandlers<TSuccess, TError, A, B> {
+  ok: (value: TSuccess) => A
+  err: (error: TError) => B
+}
 
 /**
  * Represents a successful operation
  */
-export class Ok<TSuccess, TError = string[]> {
+export class Ok<TSuccess, TError = CQRError[]> {
   readonly __tag = 'ok' as const
   constructor(public readonly value: TSuccess) {}
 
@@ -18,7 +34,7 @@ export class Ok<TSuccess, TError = string[]> {
     return true
   }
 
-  isErr(): this is Err<TError> {
+  isErr(): this is Err<TError, TSuccess> {
     return false
   }
 
@@ -29,10 +45,60 @@ export class Ok<TSuccess, TError = string[]> {
     return new Ok(fn(this.value))
   }
 
+  /**
+   * Transform the error (no-op for Ok)
+   */
+  mapErr<F>(_fn: (error: TError) => F): Result<TSuccess, F> {
+    return new Ok(this.value)
+  }
+
+  /**
+   * Chain an operation that can fail with the success value
+   */
+  andThen<U, F = TError>(fn: (value: TSuccess) => Result<U, F>): Result<U, TError | F> {
+    return fn(this.value)
+  }
+
+  /**
+   * Alias of "andThen"
+   */
+  flatMap<U, F = TError>(fn: (value: TSuccess) => Result<U, F>): Result<U, TError | F> {
+    return this.andThen(fn)
+  }
+
+  /**
+   * Recover from the error (no-op for Ok)
+   */
+  orElse<U, F>(_fn: (error: TError) => Result<U, F>): Result<TSuccess | U, F> {
+    return new Ok(this.value)
+  }
+
+  /**
+   * Call the handler of the outcome and return its value
+   */
+  match<A, B = A>(handlers: MatchHandlers<TSuccess, TError, A, B>): A | B {
+    return handlers.ok(this.value)
+  }
+
+  /**
+   * Run a side effect with the success value, keeping the result
+   */
+  tap(fn: (value: TSuccess) => unknown): this {
+    fn(this.value)
+    return this
+  }
+
+  /**
+   * Run a side effect with the error (no-op for Ok)
+   */
+  tapErr(_fn: (error: TError) => unknown): this {
+    return this
+  }
+
   /**
    * Get the value or a default if err (won't happen for Ok)
    */
-  unwrapOr(_defaultValue: TSuccess | unknown): TSuccess {
+  unwrapOr<U>(_defaultValue: U): TSuccess | U {
     return this.value
   }
 
@@ -46,71 +112,320 @@ export class Ok<TSuccess, TError = string[]> {
 
 /**
  * Represents a failed operation
+ * TSuccess is the success type of the Result it stands for
  */
-export class Err<TError = string[]> {
+export class Err<TError = CQRError[], TSuccess = never> {
   readonly __tag = 'err' as const
   // eslint-disable-next-line handle-callback-err
   constructor(public readonly error: TError) {}
 
-  isOk(): this is Ok<never, TError> {
+  isOk(): this is Ok<TSuccess, TError> {
     return false
   }
 
-  isErr(): this is Err<TError> {
+  isErr(): this is Err<TError, TSuccess> {
     return true
   }
 
   /**
    * Transform the success value (no-op for Err)
    */
-  map(_fn: (value: never) => unknown): Result<never, TError> {
+  map<U>(_fn: (value: TSuccess) => U): Result<U, TError> {
+    return new Err(this.error)
+  }
+
+  /**
+   * Transform the error
+   */
+  mapErr<F>(fn: (error: TError) => F): Result<TSuccess, F> {
+    return new Err(fn(this.error))
+  }
+
+  /**
+   * Chain an operation that can fail (no-op for Err)
+   */
+  andThen<U, F = TError>(_fn: (value: TSuccess) => Result<U, F>): Result<U, TError | F> {
+    return new Err(this.error)
+  }
+
+  /**
+   * Alias of "andThen"
+   */
+  flatMap<U, F = TError>(fn: (value: TSuccess) => Result<U, F>): Result<U, TError | F> {
+    return this.andThen(fn)
+  }
+
+  /**
+   * Recover from the error with another result
+   */
+  orElse<U, F>(fn: (error: TError) => Result<U, F>): Result<TSuccess | U, F> {
+    return fn(this.error)
+  }
+
+  /**
+   * Call the handler of the outcome and return its value
+   */
+  match<A, B = A>(handlers: MatchHandlers<TSuccess, TError, A, B>): A | B {
+    return handlers.err(this.error)
+  }
+
+  /**
+   * Run a side effect with the success value (no-op for Err)
+   */
+  tap(_fn: (value: TSuccess) => unknown): this {
+    return this
+  }
+
+  /**
+   * Run a side effect with the error, keeping the result
+   */
+  tapErr(fn: (error: TError) => unknown): this {
+    fn(this.error)
     return this
   }
 
   /**
    * Get the value or a default if err
    */
-  unwrapOr<T>(defaultValue: T): T {
+  unwrapOr<U>(defaultValue: U): TSuccess | U {
     return defaultValue
   }
 
   /**
-   * Get the error array or empty array
+   * Get the error messages (the messages of each field for validation errors)
    */
   getErrors(): string[] {
-    return Array.isArray(this.error) ? this.error : [String(this.error)]
+    return this.getCqrErrors().flatMap((error) =>
+      error instanceof ValidationError ? error.errors : [error.message]
+    )
   }
 
   /**
-   * Throw with error message
+   * Get the errors as CQRErrors, with their code, status and details
+   */
+  getCqrErrors(): CQRError[] {
+    const errors: unknown[] = Array.isArray(this.error) ? this.error : [this.error]
+    return errors.map((error) => toCqrError(error))
+  }
+
+  /**
+   * Throw the error (or an error combining the messages when there are several),
+   * so the exception handler maps it to its HTTP status
    */
   unwrap(): never {
-    if (Array.isArray(this.error)) {
-      throw new Error(this.error.join(', '))
+    const [first, ...others] = this.getCqrErrors()
+    if (others.length === 0) {
+      throw first ?? new CQRError('Unknown error')
     }
-    throw new Error(String(this.error))
+
+    throw new CQRError(this.getErrors().join(', '), {
+      code: first.code,
+      status: first.status,
+      cause: first,
+    })
+  }
+}
+
+/**
+ * Result resolved later, e.g. the result of "commandBus.execute"
+ * It can be awaited like a promise, and chained without awaiting each step:
+ *
+ * ```ts
+ * const result = await commandBus
+ *   .execute(new CreateOrder(cart))
+ *   .andThen((orderId) => commandBus.execute(new ChargeOrder(orderId)))
+ *   .map((payment) => payment.id)
+ * ```
+ */
+export class ResultAsync<TSuccess, TError = CQRError[]> implements Promise<
+  Result<TSuccess, TError>
+> {
+  readonly [Symbol.toStringTag] = 'ResultAsync'
+  #promise: Promise<Result<TSuccess, TError>>
+
+  constructor(promise: PromiseLike<Result<TSuccess, TError>>) {
+    this.#promise = Promise.resolve(promise)
+  }
+
+  /**
+   * Wrap a result, or the promise of a result
+   */
+  static from<T, E = CQRError[]>(
+    result: Result<T, E> | PromiseLike<Result<T, E>>
+  ): ResultAsync<T, E> {
+    return new ResultAsync(Promise.resolve(result))
+  }
+
+  /**
+   * Combine results resolved later, see "combine"
+   */
+  static combine<
+    const TResults extends readonly (
+      Result<unknown, unknown> | PromiseLike<Result<unknown, unknown>>
+    )[],
+  >(
+    results: TResults
+  ): ResultAsync<CombinedValues<TResults>, ResultError<Awaited<TResults[number]>>> {
+    return new ResultAsync(
+      Promise.all(results).then(
+        (resolved) =>
+          combine(resolved) as Result<
+            CombinedValues<TResults>,
+            ResultError<Awaited<TResults[number]>>
+          >
+      )
+    )
+  }
+
+  then<A = Result<TSuccess, TError>, B = never>(
+    onfulfilled?: ((result: Result<TSuccess, TError>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    return this.#promise.then(onfulfilled, onrejected)
+  }
+
+  catch<B = never>(
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): Promise<Result<TSuccess, TError> | B> {
+    return this.#promise.catch(onrejected)
+  }
+
+  finally(onfinally?: (() => void) | null): Promise<Result<TSuccess, TError>> {
+    return this.#promise.finally(onfinally)
+  }
+
+  /**
+   * Transform the success value
+   */
+  map<U>(fn: (value: TSuccess) => U | PromiseLike<U>): ResultAsync<U, TError> {
+    return new ResultAsync(
+      this.#promise.then(async (result) =>
+        result.isOk() ? new Ok<U, TError>(await fn(result.value)) : new Err(result.error)
+      )
+    )
+  }
+
+  /**
+   * Transform the error
+   */
+  mapErr<F>(fn: (error: TError) => F | PromiseLike<F>): ResultAsync<TSuccess, F> {
+    return new ResultAsync(
+      this.#promise.then(async (result) =>
+        result.isErr() ? new Err<F, TSuccess>(await fn(result.error)) : new Ok(result.value)
+      )
+    )
+  }
+
+  /**
+   * Chain an operation that can fail with the success value
+   * The operation can return a Result, a promise of Result or a ResultAsync
+   */
+  andThen<U, F = TError>(
+    fn: (value: TSuccess) => Result<U, F> | PromiseLike<Result<U, F>>
+  ): ResultAsync<U, TError | F> {
+    return new ResultAsync(
+      this.#promise.then((result): Result<U, TError | F> | PromiseLike<Result<U, F>> =>
+        result.isOk() ? fn(result.value) : new Err(result.error)
+      )
+    )
+  }
+
+  /**
+   * Alias of "andThen"
+   */
+  flatMap<U, F = TError>(
+    fn: (value: TSuccess) => Result<U, F> | PromiseLike<Result<U, F>>
+  ): ResultAsync<U, TError | F> {
+    return this.andThen(fn)
+  }
+
+  /**
+   * Recover from the error with another result
+   */
+  orElse<U, F>(
+    fn: (error: TError) => Result<U, F> | PromiseLike<Result<U, F>>
+  ): ResultAsync<TSuccess | U, F> {
+    return new ResultAsync(
+      this.#promise.then((result): Result<TSuccess | U, F> | PromiseLike<Result<U, F>> =>
+        result.isErr() ? fn(result.error) : new Ok(result.value)
+      )
+    )
+  }
+
+  /**
+   * Call the handler of the outcome and resolve with its value
+   */
+  match<A, B = A>(handlers: MatchHandlers<TSuccess, TError, A, B>): Promise<A | B> {
+    return this.#promise.then((result) => result.match(handlers))
+  }
+
+  /**
+   * Run a side effect with the success value, awaited before resolving
+   */
+  tap(fn: (value: TSuccess) => unknown): ResultAsync<TSuccess, TError> {
+    return new ResultAsync(
+      this.#promise.then(async (result) => {
+        if (result.isOk()) {
+          await fn(result.value)
+        }
+        return result
+      })
+    )
+  }
+
+  /**
+   * Run a side effect with the error, awaited before resolving
+   */
+  tapErr(fn: (error: TError) => unknown): ResultAsync<TSuccess, TError> {
+    return new ResultAsync(
+      this.#promise.then(async (result) => {
+        if (result.isErr()) {
+          await fn(result.error)
+        }
+        return result
+      })
+    )
+  }
+
+  /**
+   * Resolve with the value or a default if err
+   */
+  unwrapOr<U>(defaultValue: U): Promise<TSuccess | U> {
+    return this.#promise.then((result) => result.unwrapOr(defaultValue))
+  }
+
+  /**
+   * Resolve with the value or reject with the error
+   */
+  unwrap(): Promise<TSuccess> {
+    return this.#promise.then((result) => result.unwrap())
   }
 }
 
 /**
  * Helper to create an Ok result
  */
-export function ok<T>(value: T): Result<T> {
+export function ok(): Result<void>
+export function ok<T>(value: T): Result<T>
+export function ok<T>(value?: T): Result<T | undefined> {
   return new Ok(value)
 }
 
 /**
- * Helper to create an Err result with string[]
+ * Helper to create an Err result
+ * Messages become CQRErrors, errors other than CQRErrors are wrapped
  */
-export function err(errors: string[]): Result<never> {
-  return new Err(errors)
+export function err(errors: Array<string | Error> | string | Error): Result<never> {
+  const list = Array.isArray(errors) ? errors : [errors]
+  return new Err(list.map((error) => toCqrError(error)))
 }
 
 /**
- * Helper to create an Err result with a single string
+ * Helper to create an Err result with a single message
+ * The options define the code, the HTTP status and the details of the error
  */
-export function errMessage(message: string): Result<never> {
-  return new Err([message])
+export function errMessage(message: string, options?: CQRErrorOptions): Result<never> {
+  return new Err([new CQRError(message, options)])
 }
 
 /**
@@ -123,6 +438,97 @@ export function isOk<T, E>(result: Result<T, E>): result is Ok<T, E> {
 /**
  * Type guard to check if result is Err
  */
-export function isErr<T, E>(result: Result<T, E>): result is Err<E> {
+export function isErr<T, E>(result: Result<T, E>): result is Err<E, T> {
   return result.isErr()
 }
+
+/**
+ * Check whether a value is a Result (Ok or Err)
+ */
+export function isResult(value: unknown): value is Result<unknown, unknown> {
+  return value instanceof Ok || value instanceof Err
+}
+
+/**
+ * Error type of a Result
+ */
+export type ResultError<T> =
+  T extends Err<infer TError, any> ? TError : T extends Ok<any, infer TError> ? TError : never
+
+/**
+ * Values of a list of results, see "combine"
+ */
+export type CombinedValues<TResults extends readonly unknown[]> = {
+  -readonly [K in keyof TResults]: UnwrapResult<Awaited<TResults[K]>>
+}
+
+/**
+ * Combine results into the result of their values
+ * Returns the first Err when one of them failed
+ */
+export function combine<const TResults extends readonly Result<unknown, unknown>[]>(
+  results: TResults
+): Result<CombinedValues<TResults>, ResultError<TResults[number]>> {
+  const values: unknown[] = []
+
+  for (const result of results) {
+    if (result.isErr()) {
+      return new Err(result.error as ResultError<TResults[number]>)
+    }
+    values.push(result.value)
+  }
+
+  return new Ok(values as CombinedValues<TResults>)
+}
+
+/**
+ * Run a function, turning the error it throws into an Err
+ * Errors are converted to CQRErrors unless "mapError" is given
+ */
+export function tryCatch<T>(fn: () => T): Result<T>
+export function tryCatch<T, E>(fn: () => T, mapError: (error: unknown) => E): Result<T, E>
+export function tryCatch<T, E>(
+  fn: () => T,
+  mapError?: (error: unknown) => E
+): Result<T, E | CQRError[]> {
+  try {
+    return new Ok(fn())
+  } catch (error) {
+    return new Err(mapError ? mapError(error) : [toCqrError(error)])
+  }
+}
+
+/**
+ * Turn a promise (or a function returning one) into a ResultAsync,
+ * the rejection becoming an Err
+ * Errors are converted to CQRErrors unless "mapError" is given
+ */
+export function fromPromise<T>(promise: PromiseLike<T> | (() => PromiseLike<T>)): ResultAsync<T>
+export function fromPromise<T, E>(
+  promise: PromiseLike<T> | (() => PromiseLike<T>),
+  mapError: (error: unknown) => E
+): ResultAsync<T, E>
+export function fromPromise<T, E>(
+  promise: PromiseLike<T> | (() => PromiseLike<T>),
+  mapError?: (error: unknown) => E
+): ResultAsync<T, E | CQRError[]> {
+  const run = async (): Promise<Result<T, E | CQRError[]>> => {
+    try {
+      return new Ok(await (typeof promise === 'function' ? promise() : promise))
+    } catch (error) {
+      return new Err(mapError ? mapError(error) : [toCqrError(error)])
+    }
+  }
+
+  return new ResultAsync(run())
+}
+
+/**
+ * Result helpers, e.g. "Result.all([...])"
+ */
+export const Result = {
+  all: combine,
+  combine,
+  fromPromise,
+  tryCatch,
+}
@@ -0,0 +1,345 @@
+import type { ICommand } from './command.js'
+import type { CommandBus } from './command_bus.js'
+import { SagaConcurrencyError } from './errors.js'
+import {
+  deserializeMessage,
+  serializeMessage,
+  type MessageIdentifier,
+  type SerializedMessage,
+} from './message.js'
+import type { Result } from './result.js'
+
+/**
+ * Lifecycle of a saga instance
+ * - running: reacting to messages
+ * - completed: finished successfully
+ * - compensated: failed, and every compensation succeeded
+ * - failed: failed, and at least one compensation failed too
+ */
+export type SagaStatus = 'running' | 'completed' | 'compensated' | 'failed'
+
+/**
+ * Persisted state of a saga for one correlation id
+ */
+export interface SagaInstance<TState extends object = Record<string, any>> {
+  sagaName: string
+  correlationId: string
+  status: SagaStatus
+  state: TState
+
+  /**
+   * Commands undoing the steps completed so far, in execution order
+   */
+  compensations: SerializedMessage[]
+
+  /**
+   * Timestamp (in milliseconds) after which the saga times out
+   */
+  deadline: number | null
+
+  /**
+   * Errors that made the saga fail
+   */
+  errors: string[]
+
+  /**
+   * Incremented on every save to detect concurrent updates
+   */
+  version: number
+}
+
+/**
+ * Storage of the saga instances
+ */
+export interface SagaStore {
+  /**
+   * Returns the instance of a saga for a correlation id
+   */
+  find(sagaName: string, correlationId: string): Promise<SagaInstance | null>
+
+  /**
+   * Insert or update an instance. Throws a SagaConcurrencyError when the
+   * instance was saved by someone else since it was loaded
+   */
+  save(instance: SagaInstance): Promise<void>
+
+  /**
+   * Returns the running instances whose deadline is passed
+   */
+  expired(now: number): Promise<SagaInstance[]>
+}
+
+/**
+ * A message a saga reacts to
+ */
+export interface SagaSubscription<TState extends object> {
+  kind: 'event' | 'result'
+  identifier: MessageIdentifier<any>
+
+  /**
+   * Creates the saga instance when none exists for the correlation id
+   */
+  start: boolean
+
+  /**
+   * Returns the correlation id of the saga instance the message belongs to
+   */
+  correlate: (message: any, result?: Result<any>) => string | undefined
+
+  handle: (message: any, context: SagaContext<TState>, result?: Result<any>) => Promise<void>
+}
+
+/**
+ * Options accepted when executing a command from a saga
+ */
+export interface SagaExecuteOptions {
+  /**
+   * Command undoing the executed command, run when the saga fails later on
+   */
+  compensation?: ICommand
+}
+
+/**
+ * Given to saga handlers to access the state of the instance and
+ * execute commands
+ */
+export class SagaContext<TState extends object = Record<string, any>> {
+  constructor(
+    private instance: SagaInstance<TState>,
+    private commandBus: CommandBus
+  ) {}
+
+  /**
+   * Correlation id of the saga instance
+   */
+  get correlationId(): string {
+    return this.instance.correlationId
+  }
+
+  /**
+   * State of the saga instance, saved once the handler returns
+   */
+  get state(): TState {
+    return this.instance.state
+  }
+
+  /**
+   * Status of the saga instance
+   */
+  get status(): SagaStatus {
+    return this.instance.status
+  }
+
+  /**
+   * Execute a command through the CommandBus. The compensation is recorded
+   * when the command succeeds, and the saga is compensated when it fails
+   */
+  async execute<TResult = unknown>(
+    command: ICommand,
+    options: SagaExecuteOptions = {}
+  ): Promise<Result<TResult>> {
+    const result = await this.commandBus.execute<ICommand, TResult>(command)
+
+    if (result.isOk()) {
+      if (options.compensation) {
+        this.instance.compensations.push(serializeMessage(options.compensation))
+      }
+    } else {
+      await this.fail(result.getErrors())
+    }
+
+    return result
+  }
+
+  /**
+   * Time the saga out after the given delay (in milliseconds)
+   */
+  timeoutIn(delay: number): void {
+    this.instance.deadline = Date.now() + delay
+  }
+
+  /**
+   * Mark the saga as completed. It no longer reacts to messages
+   */
+  complete(): void {
+    this.instance.status = 'completed'
+    this.instance.deadline = null
+  }
+
+  /**
+   * Mark the saga as failed and execute the recorded compensations,
+   * most recent first
+   */
+  async fail(errors: string[]): Promise<void> {
+    if (this.instance.status !== 'running') {
+      return
+    }
+
+    const compensations = this.instance.compensations.reverse()
+    this.instance.errors = [...errors]
+    this.instance.compensations = []
+    this.instance.deadline = null
+    this.instance.status = 'compensated'
+
+    for (const compensation of compensations) {
+      const result = await this.commandBus.execute(deserializeMessage<ICommand>(compensation))
+
+      if (result.isErr()) {
+        this.instance.status = 'failed'
+        this.instance.errors.push(...result.getErrors())
+      }
+    }
+  }
+}
+
+/**
+ * Base class of sagas (also known as process managers): long-running
+ * workflows spanning several commands, with a state persisted per
+ * correlation id
+ *
+ * Subclasses declare the messages they react to in "setup()"
+ *
+ * ```ts
+ * export default class OrderSaga extends Saga<{ paymentId?: string }> {
+ *   setup() {
+ *     this.startedBy(OrderPlacedEvent, (event) => event.orderId, async (event, saga) => {
+ *       await saga.execute(new ReserveStockCommand(event.orderId), {
+ *         compensation: new ReleaseStockCommand(event.orderId),
+ *       })
+ *     })
+ *   }
+ * }
+ * ```
+ */
+export abstract class Saga<TState extends object = Record<string, any>> {
+  /**
+   * Name under which the instances are stored. Defaults to the class name
+   */
+  static sagaName?: string
+
+  /**
+   * Delay (in milliseconds) after which a running instance times out
+   */
+  timeout?: number
+
+  #subscriptions?: SagaSubscription<TState>[]
+
+  /**
+   * Declare the messages the saga reacts to
+   */
+  abstract setup(): void
+
+  /**
+   * State of a new instance
+   */
+  initialState(): TState {
+    return {} as TState
+  }
+
+  /**
+   * Called when an instance times out. Compensates the saga by default
+   */
+  async onTimeout(context: SagaContext<TState>): Promise<void> {
+    await context.fail(['Saga timed out'])
+  }
+
+  /**
+   * Name under which the instances of the saga are stored
+   */
+  get sagaName(): string {
+    return (this.constructor as typeof Saga).sagaName ?? this.constructor.name
+  }
+
+  /**
+   * Messages the saga reacts to
+   */
+  get subscriptions(): SagaSubscription<TState>[] {
+    if (!this.#subscriptions) {
+      this.#subscriptions = []
+      this.setup()
+    }
+
+    return this.#subscriptions
+  }
+
+  /**
+   * React to an event by starting a new instance, or by resuming
+   * the instance of the same correlation id
+   */
+  protected startedBy<TEvent>(
+    event: MessageIdentifier<TEvent>,
+    correlate: (event: TEvent) => string | undefined,
+    handle: (event: TEvent, context: SagaContext<TState>) => Promise<void>
+  ): void {
+    this.subscriptions.push({ kind: 'event', identifier: event, start: true, correlate, handle })
+  }
+
+  /**
+   * React to an event of a running instance
+   */
+  protected on<TEvent>(
+    event: MessageIdentifier<TEvent>,
+    correlate: (event: TEvent) => string | undefined,
+    handle: (event: TEvent, context: SagaContext<TState>) => Promise<void>
+  ): void {
+    this.subscriptions.push({ kind: 'event', identifier: event, start: false, correlate, handle })
+  }
+
+  /**
+   * React to the result of a command executed through the CommandBus.
+   * Requires SagaCommandBehavior to be registered on the CommandBus
+   */
+  protected onResult<TCommand, TResult = unknown>(
+    command: MessageIdentifier<TCommand>,
+    correlate: (command: TCommand, result: Result<TResult>) => string | undefined,
+    handle: (
+      command: TCommand,
+      context: SagaContext<TState>,
+      result: Result<TResult>
+    ) => Promise<void>,
+    options: { start?: boolean } = {}
+  ): void {
+    this.subscriptions.push({
+      kind: 'result',
+      identifier: command,
+      start: options.start ?? false,
+      correlate: (message, result) => correlate(message, result!),
+      handle: (message, context, result) => handle(message, context, result!),
+    })
+  }
+}
+
+/**
+ * In-memory saga store, to use in tests
+ */
+export class MemorySagaStore implements SagaStore {
+  #instances = new Map<string, SagaInstance>()
+
+  async find(sagaName: string, correlationId: string): Promise<SagaInstance | null> {
+    const instance = this.#instances.get(this.#key(sagaName, correlationId))
+    return instance ? structuredClone(instance) : null
+  }
+
+  async save(instance: SagaInstance): Promise<void> {
+    const key = this.#key(instance.sagaName, instance.correlationId)
+    const stored = this.#instances.get(key)
+
+    if ((stored?.version ?? 0) !== instance.version) {
+      throw new SagaConcurrencyError(instance.sagaName, instance.correlationId)
+    }
+
+    instance.version++
+    this.#instances.set(key, structuredClone(instance))
+  }
+
+  async expired(now: number): Promise<SagaInstance[]> {
+    return [...this.#instances.values()]
+      .filter((instance) => instance.status === 'running' && instance.deadline !== null)
+      .filter((instance) => instance.deadline! <= now)
+      .map((instance) => structuredClone(instance))
+  }
+
+  #key(sagaName: string, correlationId: string): string {
+    return `${sagaName}:${correlationId}`
+  }
+}
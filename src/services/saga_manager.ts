@@ -0,0 +1,259 @@
+import type { Logger } from '@adonisjs/core/logger'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { SagaConfig } from '../types.js'
+import type { ICommand } from './command.js'
+import { defaultLogger } from './behaviors.js'
+import type { CommandBus } from './command_bus.js'
+import type { EventBus } from './event_bus.js'
+import { messageKey, messageKeys } from './message.js'
+import type { Result } from './result.js'
+import {
+  SagaContext,
+  type Saga,
+  type SagaInstance,
+  type SagaStore,
+  type SagaSubscription,
+} from './saga.js'
+
+/**
+ * Set while a saga handles a message, whatever the manager
+ */
+const sagaHandlerScope = new AsyncLocalStorage<true>()
+
+/**
+ * SagaManager - routes events and command results to the sagas, loading
+ * and saving the instance of the correlation id around each handler
+ *
+ * Messages of the same instance are handled one at a time. Messages produced
+ * while a saga handles another one (e.g. an event published by a command the
+ * saga executed) are handled in the background, once the instances they
+ * belong to are free, so sagas never wait for each other
+ */
+export class SagaManager {
+  #sagas = new Map<string, Saga<any>>()
+  #locks = new Map<string, Promise<void>>()
+  #timer?: NodeJS.Timeout
+  #running?: Promise<number>
+
+  constructor(
+    private commandBus: CommandBus,
+    private eventBus: EventBus,
+    private store: SagaStore,
+    private config: Pick<SagaConfig, 'timeoutInterval'>,
+    private logger: Logger | null = null
+  ) {}
+
+  /**
+   * Register a saga and subscribe it to its events
+   */
+  register(saga: Saga<any>): void {
+    this.#sagas.set(saga.sagaName, saga)
+
+    for (const subscription of saga.subscriptions) {
+      if (subscription.kind === 'event') {
+        this.eventBus.register(subscription.identifier, {
+          handle: (event: object) => this.#handle(saga, subscription, event),
+        })
+      }
+    }
+  }
+
+  /**
+   * Registered sagas
+   */
+  get sagas(): Saga<any>[] {
+    return [...this.#sagas.values()]
+  }
+
+  /**
+   * Hand the result of a command to the sagas reacting to it.
+   * Called by SagaCommandBehavior
+   */
+  async observe(command: ICommand, result: Result<unknown>): Promise<void> {
+    const keys = messageKeys(command)
+
+    for (const saga of this.#sagas.values()) {
+      for (const subscription of saga.subscriptions) {
+        if (subscription.kind === 'result' && keys.includes(messageKey(subscription.identifier))) {
+          await this.#handle(saga, subscription, command, result)
+        }
+      }
+    }
+  }
+
+  /**
+   * Time out the running instances whose deadline is passed
+   * @returns The number of instances timed out
+   */
+  async checkTimeouts(): Promise<number> {
+    let timedOut = 0
+
+    for (const expired of await this.store.expired(Date.now())) {
+      const saga = this.#sagas.get(expired.sagaName)
+      if (!saga) {
+        continue
+      }
+
+      await this.#withInstance(saga, expired.correlationId, false, async (instance, context) => {
+        // The instance may have moved on since it was listed
+        if (instance.deadline === null || instance.deadline > Date.now()) {
+          return false
+        }
+
+        instance.deadline = null
+        await saga.onTimeout(context)
+        timedOut++
+        return true
+      })
+    }
+
+    return timedOut
+  }
+
+  /**
+   * Start checking the timeouts periodically
+   */
+  start(): void {
+    if (this.isRunning) {
+      return
+    }
+
+    this.#schedule()
+  }
+
+  /**
+   * Stop checking the timeouts and wait for the check in progress
+   */
+  async stop(): Promise<void> {
+    clearTimeout(this.#timer)
+    this.#timer = undefined
+
+    await this.#running
+  }
+
+  /**
+   * Whether the timeouts are checked periodically
+   */
+  get isRunning(): boolean {
+    return this.#timer !== undefined
+  }
+
+  async #handle(
+    saga: Saga<any>,
+    subscription: SagaSubscription<any>,
+    message: object,
+    result?: Result<unknown>
+  ): Promise<void> {
+    const correlationId = subscription.correlate(message, result)
+    if (correlationId === undefined) {
+      return
+    }
+
+    await this.#withInstance(saga, correlationId, subscription.start, async (_, context) => {
+      await subscription.handle(message, context, result)
+      return true
+    })
+  }
+
+  /**
+   * Loads (or creates) the instance of a correlation id, runs the callback
+   * and saves the instance when the callback returns true. Handler errors
+   * fail the saga
+   */
+  async #withInstance(
+    saga: Saga<any>,
+    correlationId: string,
+    create: boolean,
+    callback: (instance: SagaInstance, context: SagaContext<any>) => Promise<boolean>
+  ): Promise<void> {
+    const key = `${saga.sagaName}:${correlationId}`
+
+    const run = async () => {
+      const instance =
+        (await this.store.find(saga.sagaName, correlationId)) ??
+        (create ? this.#createInstance(saga, correlationId) : null)
+
+      if (!instance || instance.status !== 'running') {
+        return
+      }
+
+      const context = new SagaContext(instance, this.commandBus)
+      let changed: boolean
+
+      try {
+        changed = await callback(instance, context)
+      } catch (error) {
+        await context.fail([error instanceof Error ? error.message : 'Saga failed'])
+        changed = true
+      }
+
+      if (changed) {
+        await this.store.save(instance)
+      }
+    }
+
+    // Produced by a saga handler: waiting could deadlock with the instance it runs for
+    if (sagaHandlerScope.getStore()) {
+      this.#withLock(key, run).catch(async (error) => {
+        const logger = this.logger ?? (await defaultLogger())
+        logger.error(
+          { saga: saga.sagaName, correlationId, err: error },
+          `[CQRS] Saga ${saga.sagaName} failed to handle a message`
+        )
+      })
+      return
+    }
+
+    await this.#withLock(key, run)
+  }
+
+  #createInstance(saga: Saga<any>, correlationId: string): SagaInstance {
+    return {
+      sagaName: saga.sagaName,
+      correlationId,
+      status: 'running',
+      state: saga.initialState(),
+      compensations: [],
+      deadline: saga.timeout ? Date.now() + saga.timeout : null,
+      errors: [],
+      version: 0,
+    }
+  }
+
+  /**
+   * Runs the callback once the previous callbacks of the same key are done
+   */
+  async #withLock(key: string, callback: () => Promise<void>): Promise<void> {
+    const previous = this.#locks.get(key) ?? Promise.resolve()
+    const current = previous.then(() => sagaHandlerScope.run(true, callback))
+    const settled = current.catch(() => {})
+
+    this.#locks.set(key, settled)
+
+    try {
+      await current
+    } finally {
+      if (this.#locks.get(key) === settled) {
+        this.#locks.delete(key)
+      }
+    }
+  }
+
+  #schedule(): void {
+    this.#timer = setTimeout(async () => {
+      try {
+        this.#running = this.checkTimeouts()
+        await this.#running
+      } catch (error) {
+        const logger = this.logger ?? (await defaultLogger())
+        logger.error({ err: error }, '[CQRS] Failed to check the saga timeouts')
+      } finally {
+        this.#running = undefined
+      }
+
+      if (this.#timer) {
+        this.#schedule()
+      }
+    }, this.config.timeoutInterval)
+  }
+}
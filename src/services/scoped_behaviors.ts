@@ -0,0 +1,109 @@
+import type { BehaviorEntry, ConditionalBehaviorEntry } from '../types.js'
+import type { CommandBehavior, EventBehavior, QueryBehavior } from './behaviors.js'
+
+/**
+ * Options of a behavior added to a bus with "use"
+ * - when: apply the behavior only to the messages matching the predicate
+ */
+export interface BehaviorOptions<TMessage = any> {
+  when?: (message: TMessage) => boolean
+}
+
+/**
+ * Behavior of a pipeline, with the predicate selecting its messages
+ */
+export interface PipelineBehavior<TBehavior> {
+  behavior: TBehavior
+  when?: (message: any) => boolean
+}
+
+/**
+ * Behaviors declared with "@UseBehaviors", by class
+ */
+const declaredBehaviors = new WeakMap<object, BehaviorEntry<unknown>[]>()
+
+/**
+ * Behaviors of a class and its parents, constructed once per class
+ */
+const classBehaviors = new WeakMap<object, PipelineBehavior<unknown>[]>()
+
+/**
+ * Attach behaviors to a command, query or event class, or to a handler class.
+ * They run after the behaviors of the bus, the behaviors of the message first.
+ * Behavior classes are constructed once, without arguments
+ *
+ * @UseBehaviors(TransactionCommandBehavior)
+ * export default class CreateUserCommandHandler { ... }
+ */
+export function UseBehaviors(
+  ...behaviors: BehaviorEntry<CommandBehavior | QueryBehavior | EventBehavior>[]
+) {
+  return (target: abstract new (...args: any[]) => unknown): void => {
+    declaredBehaviors.set(target, behaviors)
+  }
+}
+
+/**
+ * Whether a behavior entry is a "{ behavior, when }" conditional entry
+ */
+export function isConditionalBehavior<TBehavior>(
+  entry: BehaviorEntry<TBehavior>
+): entry is ConditionalBehaviorEntry<TBehavior> {
+  return typeof entry === 'object' && entry !== null && 'behavior' in entry && 'when' in entry
+}
+
+/**
+ * Normalize a behavior entry, constructing behavior classes without arguments
+ */
+export function toPipelineBehavior<TBehavior>(
+  entry: BehaviorEntry<TBehavior>
+): PipelineBehavior<TBehavior> {
+  if (isConditionalBehavior(entry)) {
+    return { ...toPipelineBehavior(entry.behavior), when: entry.when }
+  }
+
+  return {
+    behavior:
+      typeof entry === 'function' ? new (entry as new () => TBehavior)() : (entry as TBehavior),
+  }
+}
+
+/**
+ * Behaviors declared with "@UseBehaviors" on the class of a message or a
+ * handler and on its parent classes, parents first
+ */
+export function scopedBehaviors<TBehavior>(target: object): PipelineBehavior<TBehavior>[] {
+  return classScopedBehaviors(Object.getPrototypeOf(target)?.constructor)
+}
+
+/**
+ * Behaviors declared with "@UseBehaviors" on a class and its parents, parents first
+ */
+export function classScopedBehaviors<TBehavior>(
+  constructor: unknown
+): PipelineBehavior<TBehavior>[] {
+  if (typeof constructor !== 'function' || constructor === Object) {
+    return []
+  }
+
+  let behaviors = classBehaviors.get(constructor)
+
+  if (!behaviors) {
+    const parent = scopedBehaviors<unknown>(constructor.prototype)
+    const own = declaredBehaviors.get(constructor) ?? []
+    behaviors = [...parent, ...own.map((entry) => toPipelineBehavior(entry))]
+    classBehaviors.set(constructor, behaviors)
+  }
+
+  return behaviors as PipelineBehavior<TBehavior>[]
+}
+
+/**
+ * Behaviors applying to a message, in pipeline order
+ */
+export function pipelineBehaviors<TBehavior>(
+  message: object,
+  behaviors: PipelineBehavior<TBehavior>[]
+): TBehavior[] {
+  return behaviors.filter(({ when }) => !when || when(message)).map(({ behavior }) => behavior)
+}
@@ -0,0 +1,24 @@
+import type { TransactionClientContract } from '@adonisjs/lucid/types/database'
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+/**
+ * Holds the transaction opened by TransactionCommandBehavior for the
+ * command being executed
+ */
+const transactionStorage = new AsyncLocalStorage<TransactionClientContract>()
+
+/**
+ * Returns the transaction of the command being executed, if any.
+ * Handlers use it to run their queries (and record outbox messages)
+ * atomically with the rest of the command
+ */
+export function currentTransaction(): TransactionClientContract | undefined {
+  return transactionStorage.getStore()
+}
+
+/**
+ * Runs the callback with the given transaction as the current one
+ */
+export function runInTransaction<T>(trx: TransactionClientContract, callback: () => T): T {
+  return transactionStorage.run(trx, callback)
+}
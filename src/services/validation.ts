@@ -0,0 +1,92 @@
+import { ValidationError, type ErrorDetails } from './errors.js'
+import { err, ok, type Result } from './result.js'
+
+/**
+ * Validator declared by a command or a query as "static validator",
+ * typically a VineJS validator: "static validator = vine.compile(schema)"
+ */
+export interface MessageValidator {
+  validate(data: any): Promise<unknown>
+}
+
+/**
+ * Outcome of the "validate()" method of a message (hand-written validation)
+ */
+interface ValidationOutcome {
+  isValid: boolean
+  errors?: string[]
+  details?: ErrorDetails
+}
+
+/**
+ * Message reported by a VineJS validation error
+ */
+interface VineErrorMessage {
+  field: string
+  message: string
+}
+
+/**
+ * Whether an error is the one thrown by VineJS when the data is invalid
+ */
+function isVineValidationError(error: unknown): error is Error & { messages: VineErrorMessage[] } {
+  return (
+    error instanceof Error &&
+    (error as { code?: unknown }).code === 'E_VALIDATION_ERROR' &&
+    Array.isArray((error as { messages?: unknown }).messages)
+  )
+}
+
+/**
+ * Convert the messages of a VineJS validation error to a ValidationError
+ * keyed by field
+ */
+function fromVineError(error: { messages: VineErrorMessage[] }): ValidationError {
+  const details: ErrorDetails = {}
+
+  for (const { field, message } of error.messages) {
+    details[field] = [...(details[field] ?? []), message]
+  }
+
+  return new ValidationError(
+    error.messages.map(({ message }) => message),
+    details
+  )
+}
+
+/**
+ * Validate a command or a query:
+ * - With the "static validator" of its class. The validated (and coerced)
+ *   output replaces the fields of the message, other properties are kept
+ * - With its "validate()" method, returning "{ isValid, errors, details }"
+ * @returns The message to execute, or an Err with a ValidationError
+ */
+export async function validateMessage<TMessage extends object>(
+  message: TMessage
+): Promise<Result<TMessage>> {
+  let validated = message
+  const validator = (message.constructor as { validator?: MessageValidator } | undefined)?.validator
+
+  if (validator && typeof validator.validate === 'function') {
+    try {
+      const output = await validator.validate({ ...message })
+      validated = Object.assign(Object.create(Object.getPrototypeOf(message)), message, output)
+    } catch (error) {
+      if (isVineValidationError(error)) {
+        return err([fromVineError(error)])
+      }
+      throw error
+    }
+  }
+
+  if ('validate' in validated && typeof validated.validate === 'function') {
+    const validation: ValidationOutcome | undefined = await validated.validate()
+    if (validation && !validation.isValid) {
+      return err([
+        new ValidationError(validation.errors || ['Validation failed'], validation.details),
+      ])
+    }
+  }
+
+  return ok(validated)
+}
@@ -0,0 +1,322 @@
+import type { CommandBehavior, EventBehavior, QueryBehavior } from './services/behaviors.js'
+import type { MessageClass } from './services/message.js'
+import type { QueueDriver } from './services/queue.js'
+import type { SagaStore } from './services/saga.js'
+
+/**
+ * A behavior can be configured as an instance, or as a class that
+ * is constructed through the IoC container (to inject dependencies).
+ * Wrap it as "{ behavior, when }" to apply it only to the matching messages
+ */
+export type BehaviorEntry<TBehavior> =
+  TBehavior | (new (...args: any[]) => TBehavior) | ConditionalBehaviorEntry<TBehavior>
+
+/**
+ * A behavior applied only to the messages matching the "when" predicate
+ */
+export interface ConditionalBehaviorEntry<TBehavior> {
+  behavior: TBehavior | (new (...args: any[]) => TBehavior)
+  when: (message: any) => boolean
+}
+
+/**
+ * Resolved configuration used by the CQRS provider
+ */
+export interface CqrsConfig {
+  /**
+   * Pipeline behaviors registered on each bus, in execution order
+   */
+  behaviors: {
+    commands: BehaviorEntry<CommandBehavior>[]
+    queries: BehaviorEntry<QueryBehavior>[]
+    events: BehaviorEntry<EventBehavior>[]
+  }
+
+  /**
+   * Handler auto-discovery settings
+   */
+  discovery: {
+    /**
+     * Directories scanned recursively, relative to the application root
+     */
+    directories: string[]
+
+    /**
+     * File name suffixes (without extension) identifying handler files
+     */
+    suffixes: string[]
+
+    /**
+     * File name suffixes (without extension) identifying saga files
+     */
+    sagaSuffixes: string[]
+
+    /**
+     * File name suffixes (without extension) identifying command files,
+     * whose exported classes must have a handler in strict mode
+     */
+    commandSuffixes: string[]
+
+    /**
+     * File name suffixes (without extension) identifying query files,
+     * whose exported classes must have a handler in strict mode
+     */
+    querySuffixes: string[]
+  }
+
+  /**
+   * Print handler discovery information while the provider boots
+   */
+  logging: boolean
+
+  /**
+   * Fail the boot when a handler is registered twice for a command or a query,
+   * when a handler file cannot be imported or its handler constructed, and when
+   * a discovered command or query has no handler.
+   * Defaults to true in the test and production environments
+   */
+  strict?: boolean
+
+  /**
+   * Transactional outbox settings. Requires @adonisjs/lucid
+   */
+  outbox: OutboxConfig
+
+  /**
+   * Queued command dispatch settings
+   */
+  queue: QueueConfig
+
+  /**
+   * Sagas settings
+   */
+  sagas: SagaConfig
+}
+
+/**
+ * Transactional outbox settings
+ */
+export interface OutboxConfig {
+  /**
+   * Table storing the outbox messages
+   */
+  table: string
+
+  /**
+   * Maximum number of messages dispatched per relay run
+   */
+  batchSize: number
+
+  /**
+   * Delay (in milliseconds) between two polls of the outbox
+   */
+  pollInterval: number
+
+  /**
+   * Number of failed dispatches after which a message is no longer retried
+   */
+  maxAttempts: number
+
+  /**
+   * Delay (in milliseconds) before retrying a failed message, doubled
+   * after every failed dispatch
+   */
+  backoff: number
+
+  /**
+   * Start polling the outbox in-process once the application is ready
+   */
+  poll: boolean
+}
+
+/**
+ * Queued command dispatch settings
+ */
+export interface QueueConfig {
+  /**
+   * Storage of the queued commands: "memory", "database" (requires
+   * @adonisjs/lucid), "redis" (requires @adonisjs/redis) or a custom driver
+   */
+  driver: 'memory' | 'database' | 'redis' | QueueDriver
+
+  /**
+   * Queue receiving the commands dispatched without a queue
+   */
+  defaultQueue: string
+
+  /**
+   * Table storing the jobs of the "database" driver
+   */
+  table: string
+
+  /**
+   * Redis connection used by the "redis" driver. Defaults to the
+   * default connection
+   */
+  connection?: string
+
+  /**
+   * Number of executions after which a failing command is no longer retried
+   */
+  maxAttempts: number
+
+  /**
+   * Delay (in milliseconds) before retrying a failed command, multiplied
+   * by the number of attempts
+   */
+  backoff: number
+
+  /**
+   * Delay (in milliseconds) between two polls of an empty queue
+   */
+  pollInterval: number
+
+  /**
+   * Delay (in milliseconds) after which a job reserved by a worker that
+   * stopped without completing it is made available again
+   */
+  retryAfter: number
+
+  /**
+   * Queues consumed in-process once the application is ready. Leave
+   * empty to run "node ace cqrs:work" in a dedicated process instead
+   */
+  work: string[]
+}
+
+/**
+ * Sagas settings
+ */
+export interface SagaConfig {
+  /**
+   * Storage of the saga instances: "memory", "database" (requires
+   * @adonisjs/lucid) or a custom store
+   */
+  store: 'memory' | 'database' | SagaStore
+
+  /**
+   * Table storing the instances of the "database" store
+   */
+  table: string
+
+  /**
+   * Delay (in milliseconds) between two checks of the saga timeouts
+   */
+  timeoutInterval: number
+}
+
+/**
+ * Configuration accepted by "defineConfig". Omitted options fall
+ * back to their defaults
+ */
+export interface CqrsConfigInput {
+  behaviors?: Partial<CqrsConfig['behaviors']>
+  discovery?: Partial<CqrsConfig['discovery']>
+  logging?: boolean
+  strict?: boolean
+  outbox?: Partial<OutboxConfig>
+  queue?: Partial<QueueConfig>
+  sagas?: Partial<SagaConfig>
+}
+
+/**
+ * Registry of the commands known to the application and the result
+ * of their handlers. Augment it to let "commandBus.execute" infer the
+ * result from the command
+ *
+ * ```ts
+ * declare module '@wailroth/cqrs/types' {
+ *   interface CommandRegistry {
+ *     CreateUserCommand: { command: CreateUserCommand; result: UserId }
+ *   }
+ * }
+ * ```
+ */
+export interface CommandRegistry {}
+
+/**
+ * Registry of the queries known to the application and the result
+ * of their handlers. Augment it to let "queryBus.execute" infer the
+ * result from the query
+ *
+ * ```ts
+ * declare module '@wailroth/cqrs/types' {
+ *   interface QueryRegistry {
+ *     GetUserQuery: { query: GetUserQuery; result: User | null }
+ *   }
+ * }
+ * ```
+ */
+export interface QueryRegistry {}
+
+/**
+ * Result of the registry entries whose message matches TMessage,
+ * or never when the message is not registered
+ */
+type RegisteredResult<TRegistry, TMessageKey extends string, TMessage> = {
+  [K in keyof TRegistry]: TRegistry[K] extends { [P in TMessageKey]: infer TRegisteredMessage } & {
+    result: infer TResult
+  }
+    ? [TMessage] extends [TRegisteredMessage]
+      ? TResult
+      : never
+    : never
+}[keyof TRegistry]
+
+/**
+ * Result of a command handler as declared in the CommandRegistry.
+ * Falls back to TFallback for commands missing from the registry
+ */
+export type CommandResult<TCommand, TFallback = void> = [
+  RegisteredResult<CommandRegistry, 'command', TCommand>,
+] extends [never]
+  ? TFallback
+  : RegisteredResult<CommandRegistry, 'command', TCommand>
+
+/**
+ * Result of a query handler as declared in the QueryRegistry.
+ * Falls back to TFallback for queries missing from the registry
+ */
+export type QueryResult<TQuery, TFallback = unknown> = [
+  RegisteredResult<QueryRegistry, 'query', TQuery>,
+] extends [never]
+  ? TFallback
+  : RegisteredResult<QueryRegistry, 'query', TQuery>
+
+/**
+ * Result a handler must return when registered for the given identifier.
+ * Message classes are looked up by their instance type, strings by their
+ * registry key. Unknown identifiers fall back to TFallback
+ */
+type IdentifierResult<TRegistry, TMessageKey extends string, TIdentifier, TFallback> =
+  TIdentifier extends MessageClass<infer TMessage>
+    ? [RegisteredResult<TRegistry, TMessageKey, TMessage>] extends [never]
+      ? TFallback
+      : RegisteredResult<TRegistry, TMessageKey, TMessage>
+    : TIdentifier extends keyof TRegistry
+      ? TRegistry[TIdentifier] extends { result: infer TResult }
+        ? TResult
+        : TFallback
+      : TFallback
+
+/**
+ * Result a command handler must return when registered for the given
+ * identifier (command class or CommandRegistry key)
+ */
+export type CommandHandlerResult<TIdentifier, TFallback> = IdentifierResult<
+  CommandRegistry,
+  'command',
+  TIdentifier,
+  TFallback
+>
+
+/**
+ * Result a query handler must return when registered for the given
+ * identifier (query class or QueryRegistry key)
+ */
+export type QueryHandlerResult<TIdentifier, TFallback> = IdentifierResult<
+  QueryRegistry,
+  'query',
+  TIdentifier,
+  TFallback
+>
@@ -0,0 +1,41 @@
+import { Emitter } from '@adonisjs/core/events'
+import { AppFactory } from '@adonisjs/core/factories/app'
+import { LoggerFactory } from '@adonisjs/core/factories/logger'
+import { Database } from '@adonisjs/lucid/database'
+
+/**
+ * Creates a Lucid database backed by an in-memory SQLite database.
+ * Close it with "db.manager.closeAll()"
+ */
+export function createDatabase(): Database {
+  const app = new AppFactory().create(new URL('./', import.meta.url), () => {})
+
+  return new Database(
+    {
+      connection: 'sqlite',
+      connections: {
+        sqlite: {
+          client: 'better-sqlite3',
+          connection: { filename: ':memory:' },
+          useNullAsDefault: true,
+        },
+      },
+    },
+    new LoggerFactory().create(),
+    new Emitter(app)
+  )
+}
+
+/**
+ * Creates a logger keeping its logs in memory. "logs()" returns the
+ * parsed log entries
+ */
+export function createLogger() {
+  const lines: string[] = []
+  const logger = new LoggerFactory()
+    .pushLogsTo(lines)
+    .merge({ enabled: true, level: 'trace' })
+    .create()
+
+  return { logger, logs: (): Record<string, any>[] => lines.map((line) => JSON.parse(line)) }
+}
@@ -0,0 +1,121 @@
+import { test } from '@japa/runner'
+import { AuthorizationResponse, Bouncer, BasePolicy } from '@adonisjs/bouncer'
+import {
+  AuthorizationCommandBehavior,
+  AuthorizationQueryBehavior,
+  CommandBus,
+  ForbiddenError,
+  QueryBus,
+  ok,
+  runAs,
+  type ICommand,
+  type IQuery,
+  type Result,
+} from '../../src/services/index.js'
+
+interface User {
+  id: number
+  isAdmin: boolean
+}
+
+class DeletePostCommand implements ICommand {
+  static authorize = Bouncer.ability((user: User, command: DeletePostCommand) => {
+    return user.isAdmin || command.authorId === user.id
+  })
+
+  readonly __command: true = true
+  constructor(public authorId: number) {}
+}
+
+class ReportPolicy extends BasePolicy {
+  view(user: User) {
+    return user.isAdmin ? true : AuthorizationResponse.deny('Reports are private', 404)
+  }
+}
+
+class GetReportQuery implements IQuery {
+  static authorize = [ReportPolicy, 'view'] as const
+  readonly __query: true = true
+}
+
+class PublicCommand implements ICommand {
+  readonly __command: true = true
+}
+
+const alice: User = { id: 1, isAdmin: false }
+const admin: User = { id: 2, isAdmin: true }
+
+function createCommandBus() {
+  const bus = new CommandBus()
+  bus.use(new AuthorizationCommandBehavior())
+  bus.register(DeletePostCommand, { handle: async (): Promise<Result<string>> => ok('deleted') })
+  bus.register(PublicCommand, { handle: async (): Promise<Result<string>> => ok('done') })
+  return bus
+}
+
+test.group('Authorization behaviors', () => {
+  test('execute commands allowed by their ability', async ({ assert }) => {
+    const bus = createCommandBus()
+
+    const own = await runAs(alice, () => bus.execute(new DeletePostCommand(1)))
+    assert.equal(own.unwrap(), 'deleted')
+
+    const asAdmin = await runAs(admin, () => bus.execute(new DeletePostCommand(1)))
+    assert.equal(asAdmin.unwrap(), 'deleted')
+  })
+
+  test('reject commands denied by their ability', async ({ assert }) => {
+    const bus = createCommandBus()
+
+    const result = await runAs(alice, () => bus.execute(new DeletePostCommand(3)))
+    const [error] = result.isErr() ? result.error : []
+
+    assert.instanceOf(error, ForbiddenError)
+    assert.equal(error.status, 403)
+  })
+
+  test('reject commands requiring authorization without an actor', async ({ assert }) => {
+    const bus = createCommandBus()
+
+    const denied = await bus.execute(new DeletePostCommand(1))
+    assert.instanceOf(denied.isErr() ? denied.error[0] : null, ForbiddenError)
+
+    const allowed = await bus.execute(new PublicCommand())
+    assert.equal(allowed.unwrap(), 'done')
+  })
+
+  test('authorize queries with a policy action', async ({ assert }) => {
+    const bus = new QueryBus()
+    bus.use(new AuthorizationQueryBehavior())
+    bus.register(GetReportQuery, { handle: async () => 'report' })
+
+    assert.equal(await runAs(admin, () => bus.execute<string>(new GetReportQuery())), 'report')
+
+    const result = await runAs(alice, () => bus.tryExecute(new GetReportQuery()))
+    const [error] = result.isErr() ? result.error : []
+    assert.instanceOf(error, ForbiddenError)
+    assert.equal(error.message, 'Reports are private')
+    assert.equal(error.status, 404)
+
+    await assert.rejects(async () => {
+      await runAs(alice, () => bus.execute(new GetReportQuery()))
+    }, /Reports are private/)
+  })
+
+  test('create the bouncer of the actor with the given factory', async ({ assert }) => {
+    const actors: unknown[] = []
+    const bus = new CommandBus()
+    bus.use(
+      new AuthorizationCommandBehavior({
+        createBouncer: (actor) => {
+          actors.push(actor)
+          return new Bouncer(actor as User)
+        },
+      })
+    )
+    bus.register(DeletePostCommand, { handle: async (): Promise<Result<void>> => ok() })
+
+    await runAs(alice, () => bus.execute(new DeletePostCommand(1)))
+    assert.deepEqual(actors, [alice])
+  })
+})
@@ -4,7 +4,16 @@ import {
   QueryBus,
   LoggingCommandBehavior,
   LoggingQueryBehavior,
+  RetryCommandBehavior,
+  TransactionCommandBehavior,
   ValidationCommandBehavior,
+  ValidationError,
+  ValidationQueryBehavior,
+  QueryFailedError,
+  currentTransaction,
+  isTransientError,
+  toCqrError,
+  CQRError,
   ok,
   err,
   isErr,
@@ -14,6 +23,8 @@ import {
   type IQuery,
   type IQueryHandler,
 } from '../../src/services/index.js'
+import vine from '@vinejs/vine'
+import { createDatabase, createLogger } from '../helpers.js'
 
 // Test command
 class TestCommand implements ICommand {
@@ -51,29 +62,33 @@ class TestQueryHandler implements IQueryHandler<TestQuery, number> {
 
 test.group('Command Behaviors', () => {
   test('LoggingCommandBehavior logs execution', async ({ assert }) => {
+    const { logger, logs } = createLogger()
     const bus = new CommandBus()
-    bus.use(new LoggingCommandBehavior())
+    bus.use(new LoggingCommandBehavior(logger))
 
     bus.register('TestCommand', new TestCommandHandler())
     const command = new TestCommand(5)
 
-    const logs: string[] = []
-    const originalLog = console.log
-    console.log = (...args) => logs.push(args.join(' '))
+    const result = await bus.execute(command)
+    assert.isTrue(result.isOk())
 
-    try {
-      const result = await bus.execute(command)
-      assert.isTrue(result.isOk())
-      assert.isTrue(logs.some((log) => log.includes('[Command] Executing:')))
-      assert.isTrue(logs.some((log) => log.includes('[Command] Completed:')))
-    } finally {
-      console.log = originalLog
-    }
+    const [executing, completed] = logs()
+    assert.equal(executing.msg, 'Executing command TestCommand')
+    assert.equal(executing.level, 30)
+    assert.containsSubset(executing, {
+      kind: 'command',
+      name: 'TestCommand',
+      payload: { value: 5 },
+    })
+    assert.equal(completed.msg, 'Command TestCommand completed')
+    assert.isNumber(completed.duration)
+    assert.notProperty(completed, 'payload')
   })
 
   test('LoggingCommandBehavior logs errors', async ({ assert }) => {
+    const { logger, logs } = createLogger()
     const bus = new CommandBus()
-    bus.use(new LoggingCommandBehavior())
+    bus.use(new LoggingCommandBehavior(logger, { level: 'debug', failureLevel: 'error' }))
 
     class FailingHandler implements ICommandHandler<TestCommand> {
       async handle(): Promise<Result<void>> {
@@ -84,17 +99,37 @@ test.group('Command Behaviors', () => {
     bus.register('TestCommand', new FailingHandler())
     const command = new TestCommand(5)
 
-    const logs: string[] = []
-    const originalLog = console.log
-    console.log = (...args) => logs.push(args.join(' '))
+    const result = await bus.execute(command)
+    assert.isTrue(result.isErr())
 
-    try {
-      const result = await bus.execute(command)
-      assert.isTrue(result.isErr())
-      assert.isTrue(logs.some((log) => log.includes('[Command] Failed:')))
-    } finally {
-      console.log = originalLog
-    }
+    const [executing, failed] = logs()
+    assert.equal(executing.level, 20)
+    assert.equal(failed.msg, 'Command TestCommand failed')
+    assert.equal(failed.level, 50)
+    assert.deepEqual(failed.errors, [
+      { code: 'E_CQRS_ERROR', message: 'Handler error', status: 400 },
+    ])
+  })
+
+  test('LoggingCommandBehavior redacts sensitive fields', async ({ assert }) => {
+    const { logger, logs } = createLogger()
+    const bus = new CommandBus()
+    bus.use(new LoggingCommandBehavior(logger, { sensitiveFields: ['password', 'card.number'] }))
+    bus.register('TestCommand', new TestCommandHandler())
+
+    const command = Object.assign(new TestCommand(5), {
+      password: 'secret',
+      card: { number: '4242', expiry: '12/30' },
+    })
+    await bus.execute(command)
+
+    assert.deepEqual(logs()[0].payload, {
+      __command: true,
+      useTransaction: false,
+      value: 5,
+      password: '[REDACTED]',
+      card: { number: '[REDACTED]', expiry: '12/30' },
+    })
   })
 
   test('ValidationCommandBehavior validates commands', async ({ assert }) => {
@@ -126,29 +161,25 @@ test.group('Command Behaviors', () => {
 
 test.group('Query Behaviors', () => {
   test('LoggingQueryBehavior logs execution', async ({ assert }) => {
+    const { logger, logs } = createLogger()
     const bus = new QueryBus()
-    bus.use(new LoggingQueryBehavior())
+    bus.use(new LoggingQueryBehavior(logger))
 
     bus.register('TestQuery', new TestQueryHandler())
     const query = new TestQuery(5)
 
-    const logs: string[] = []
-    const originalLog = console.log
-    console.log = (...args) => logs.push(args.join(' '))
-
-    try {
-      const result = await bus.execute(query)
-      assert.equal(result, 15)
-      assert.isTrue(logs.some((log) => log.includes('[Query] Executing:')))
-      assert.isTrue(logs.some((log) => log.includes('[Query] Completed:')))
-    } finally {
-      console.log = originalLog
-    }
+    const result = await bus.execute(query)
+    assert.equal(result, 15)
+    assert.deepEqual(
+      logs().map((log) => log.msg),
+      ['Executing query TestQuery', 'Query TestQuery completed']
+    )
   })
 
   test('LoggingQueryBehavior logs errors', async ({ assert }) => {
+    const { logger, logs } = createLogger()
     const bus = new QueryBus()
-    bus.use(new LoggingQueryBehavior())
+    bus.use(new LoggingQueryBehavior(logger))
 
     class ThrowingHandler implements IQueryHandler<TestQuery, number> {
       async handle(): Promise<number> {
@@ -159,17 +190,249 @@ test.group('Query Behaviors', () => {
     bus.register('TestQuery', new ThrowingHandler())
     const query = new TestQuery(5)
 
-    const logs: string[] = []
-    const originalError = console.error
-    console.error = (...args) => logs.push(args.join(' '))
+    await assert.rejects(async () => {
+      await bus.execute(query)
+    })
 
-    try {
-      await assert.rejects(async () => {
-        await bus.execute(query)
+    const failed = logs()[1]
+    assert.equal(failed.msg, 'Query TestQuery failed')
+    assert.equal(failed.level, 50)
+    assert.equal(failed.err.message, 'Query error')
+  })
+})
+
+// Handler failing with the given errors before succeeding
+class FlakyHandler implements ICommandHandler<TestCommand, number> {
+  attempts = 0
+
+  constructor(private failures: string[][]) {}
+
+  async handle(command: TestCommand): Promise<Result<number>> {
+    const errors = this.failures[this.attempts++]
+    return errors ? err(errors) : ok(command.value)
+  }
+}
+
+test.group('RetryCommandBehavior', () => {
+  test('retry commands failing with transient errors', async ({ assert }) => {
+    const bus = new CommandBus()
+    const handler = new FlakyHandler([['deadlock detected'], ['could not serialize access']])
+    bus.use(new RetryCommandBehavior({ baseDelay: 0 }))
+    bus.register('TestCommand', handler)
+
+    const result = await bus.execute<TestCommand, number>(new TestCommand(5))
+
+    assert.isTrue(result.isOk())
+    assert.equal(handler.attempts, 3)
+  })
+
+  test('give up after the max attempts', async ({ assert }) => {
+    const bus = new CommandBus()
+    const handler = new FlakyHandler([['deadlock detected'], ['deadlock detected']])
+    bus.use(new RetryCommandBehavior({ baseDelay: 0, maxAttempts: 2 }))
+    bus.register('TestCommand', handler)
+
+    const result = await bus.execute(new TestCommand(5))
+
+    assert.deepEqual(isErr(result) ? result.getErrors() : [], ['deadlock detected'])
+    assert.equal(handler.attempts, 2)
+  })
+
+  test('do not retry other errors', async ({ assert }) => {
+    const bus = new CommandBus()
+    const handler = new FlakyHandler([['Email already taken']])
+    bus.use(new RetryCommandBehavior({ baseDelay: 0 }))
+    bus.register('TestCommand', handler)
+
+    await bus.execute(new TestCommand(5))
+    assert.equal(handler.attempts, 1)
+  })
+
+  test('retry thrown transient errors', async ({ assert }) => {
+    const bus = new CommandBus()
+    let attempts = 0
+    bus.use(new RetryCommandBehavior({ baseDelay: 0 }))
+    bus.use({
+      async handle(command, next) {
+        if (attempts++ === 0) {
+          throw new Error('SQLITE_BUSY: database is locked')
+        }
+        return next(command)
+      },
+    })
+    bus.register('TestCommand', new TestCommandHandler())
+
+    const result = await bus.execute<TestCommand, number>(new TestCommand(5))
+
+    assert.isTrue(result.isOk())
+    assert.equal(attempts, 2)
+  })
+
+  test('let commands opt out', async ({ assert }) => {
+    const bus = new CommandBus()
+    const handler = new FlakyHandler([['deadlock detected']])
+    bus.use(new RetryCommandBehavior({ baseDelay: 0, shouldRetry: (cmd) => cmd !== skipped }))
+    bus.register('TestCommand', handler)
+
+    const skipped = new TestCommand(5)
+    await bus.execute(skipped)
+    assert.equal(handler.attempts, 1)
+
+    const optedOut = Object.assign(new TestCommand(5), { retryable: false })
+    await bus.execute(optedOut)
+    assert.equal(handler.attempts, 2)
+  })
+
+  test('use a custom classification', async ({ assert }) => {
+    const bus = new CommandBus()
+    const handler = new FlakyHandler([['Payment gateway timeout']])
+    bus.use(
+      new RetryCommandBehavior({
+        baseDelay: 0,
+        isTransient: (errors) => errors.some((error) => error.message.includes('timeout')),
       })
-      assert.isTrue(logs.some((log) => log.includes('[Query] Failed:')))
-    } finally {
-      console.error = originalError
+    )
+    bus.register('TestCommand', handler)
+
+    const result = await bus.execute(new TestCommand(5))
+    assert.isTrue(result.isOk())
+    assert.equal(handler.attempts, 2)
+  })
+
+  test('classify database conflicts as transient', ({ assert }) => {
+    const databaseError = (message: string, code: string) =>
+      toCqrError(Object.assign(new Error(message), { code }))
+
+    assert.isTrue(isTransientError([databaseError('update "users" - aborted', '40001')]))
+    assert.isTrue(isTransientError([databaseError('Transaction aborted', '40P01')]))
+    assert.isTrue(isTransientError([databaseError('Lock wait exceeded', 'ER_LOCK_WAIT_TIMEOUT')]))
+    assert.isTrue(isTransientError([databaseError('Deadlock found', 'ER_LOCK_DEADLOCK')]))
+    assert.isTrue(isTransientError([databaseError('busy', 'SQLITE_BUSY')]))
+    assert.isTrue(
+      isTransientError([
+        new CQRError('Order failed', {
+          cause: Object.assign(new Error('aborted'), { code: '40001' }),
+        }),
+      ])
+    )
+    assert.isFalse(isTransientError([databaseError('Email already taken', '23505')]))
+  })
+
+  test('classify database conflicts by their message as a fallback', ({ assert }) => {
+    assert.isTrue(isTransientError([new CQRError('Deadlock found when trying to get lock')]))
+    assert.isTrue(isTransientError([new CQRError('update "users" - could not serialize access')]))
+    assert.isTrue(isTransientError([new CQRError('Lock wait timeout exceeded')]))
+    assert.isFalse(isTransientError([new CQRError('Email already taken')]))
+  })
+
+  test('run each attempt in a fresh transaction', async ({ assert, cleanup }) => {
+    const db = createDatabase()
+    cleanup(() => db.manager.closeAll())
+    await db.connection().schema.createTable('users', (table) => {
+      table.increments('id')
+      table.integer('value')
+    })
+
+    let attempts = 0
+    const bus = new CommandBus()
+    bus.use(new RetryCommandBehavior({ baseDelay: 0 }))
+    bus.use(new TransactionCommandBehavior(db))
+    bus.register('TestCommand', {
+      async handle(command: TestCommand): Promise<Result<number>> {
+        await db
+          .table('users')
+          .useTransaction(currentTransaction()!)
+          .insert({ value: command.value })
+        return attempts++ === 0 ? err(['deadlock detected']) : ok(command.value)
+      },
+    })
+
+    const command = Object.assign(new TestCommand(5), { useTransaction: true })
+    const result = await bus.execute(command)
+    assert.isTrue(result.isOk())
+    assert.equal(attempts, 2)
+    assert.lengthOf(await db.from('users'), 1)
+  })
+})
+
+// Command declaring a VineJS validator
+class RegisterUserCommand implements ICommand {
+  static validator = vine.compile(
+    vine.object({
+      email: vine.string().trim().email(),
+      age: vine.number().min(18),
+    })
+  )
+
+  readonly __command: true = true
+  constructor(
+    public email: string,
+    public age: number | string
+  ) {}
+}
+
+// Query declaring a VineJS validator
+class SearchUsersQuery implements IQuery {
+  static validator = vine.compile(vine.object({ limit: vine.number().max(100) }))
+
+  readonly __query: true = true
+  constructor(public limit: number | string) {}
+}
+
+test.group('Validation behaviors', () => {
+  test('run the validator of the command and pass the validated output', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.use(new ValidationCommandBehavior())
+
+    let received: RegisterUserCommand | undefined
+    bus.register(RegisterUserCommand, {
+      async handle(command: RegisterUserCommand): Promise<Result<void>> {
+        received = command
+        return ok()
+      },
+    })
+
+    const result = await bus.execute(new RegisterUserCommand('  jane@example.com ', '21'))
+
+    assert.isTrue(result.isOk())
+    assert.instanceOf(received, RegisterUserCommand)
+    assert.equal(received?.email, 'jane@example.com')
+    assert.strictEqual(received?.age, 21)
+  })
+
+  test('return the field errors of the command', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.use(new ValidationCommandBehavior())
+    bus.register(RegisterUserCommand, { handle: async () => err(['Unreachable']) })
+
+    const result = await bus.execute(new RegisterUserCommand('jane', 16))
+    const [error] = result.isErr() ? result.error : []
+
+    assert.instanceOf(error, ValidationError)
+    assert.equal(error.status, 422)
+    assert.deepEqual(Object.keys(error.details ?? {}), ['email', 'age'])
+    assert.lengthOf(result.isErr() ? result.getErrors() : [], 2)
+  })
+
+  test('validate queries before their handler', async ({ assert }) => {
+    const bus = new QueryBus()
+    bus.use(new ValidationQueryBehavior())
+    bus.register(SearchUsersQuery, {
+      handle: async (query: SearchUsersQuery) => `limit ${query.limit as number}`,
+    })
+
+    assert.equal(await bus.execute<string>(new SearchUsersQuery('20')), 'limit 20')
+
+    const result = await bus.tryExecute(new SearchUsersQuery(500))
+    assert.instanceOf(result.isErr() ? result.error[0] : null, ValidationError)
+
+    try {
+      await bus.execute(new SearchUsersQuery(500))
+      assert.fail('Should have thrown')
+    } catch (error) {
+      assert.instanceOf(error, QueryFailedError)
+      assert.equal((error as QueryFailedError).status, 422)
+      assert.properties((error as QueryFailedError).details, ['limit'])
     }
   })
 })
@@ -0,0 +1,164 @@
+import { test } from '@japa/runner'
+import type { CacheService } from '@adonisjs/cache/types'
+import { BentoCache, bentostore } from '@adonisjs/cache'
+import { memoryDriver } from 'bentocache/drivers/memory'
+import {
+  CacheInvalidationCommandBehavior,
+  CacheQueryBehavior,
+  CommandBus,
+  QueryBus,
+  err,
+  ok,
+  resolveQueryCache,
+  stableStringify,
+  type CacheInvalidation,
+  type ICommand,
+  type IQuery,
+  type QueryCacheOptions,
+  type Result,
+} from '../../src/services/index.js'
+import { createLogger } from '../helpers.js'
+
+class GetUser implements IQuery {
+  readonly __query: true = true
+  static cache: QueryCacheOptions<GetUser> = {
+    ttl: '5m',
+    tags: (query) => ['users', `user:${query.id}`],
+  }
+
+  constructor(public id: number) {}
+}
+
+class ListUsers implements IQuery {
+  readonly __query: true = true
+  static cache = false as const
+}
+
+class RenameUser implements ICommand {
+  readonly __command: true = true
+  static invalidates: CacheInvalidation<RenameUser> = (command) => [`user:${command.id}`]
+
+  constructor(
+    public id: number,
+    public name: string
+  ) {}
+}
+
+function createCache() {
+  return new BentoCache({
+    default: 'memory',
+    stores: { memory: bentostore().useL1Layer(memoryDriver()) },
+  }) as unknown as CacheService
+}
+
+test.group('Query cache', () => {
+  test('cache the results of queries', async ({ assert }) => {
+    const bus = new QueryBus()
+    const names: Record<number, string> = { 1: 'Jane' }
+    let executions = 0
+
+    bus.use(new CacheQueryBehavior(60, createLogger().logger, createCache()))
+    bus.register(GetUser, {
+      handle: async (query: GetUser) => {
+        executions++
+        return names[query.id]
+      },
+    })
+
+    assert.equal(await bus.execute(new GetUser(1)), 'Jane')
+    names[1] = 'John'
+    assert.equal(await bus.execute(new GetUser(1)), 'Jane')
+    assert.equal(executions, 1)
+  })
+
+  test('return the cached value of queries returning a Result', async ({ assert }) => {
+    const bus = new QueryBus()
+    let executions = 0
+
+    bus.use(new CacheQueryBehavior(60, createLogger().logger, createCache()))
+    bus.register(GetUser, {
+      returnsResult: true,
+      handle: async (): Promise<Result<string>> => {
+        executions++
+        return ok('Jane')
+      },
+    })
+
+    const first = await bus.tryExecute<string>(new GetUser(1))
+    const second = await bus.tryExecute<string>(new GetUser(1))
+    assert.equal(first.unwrap(), 'Jane')
+    assert.equal(second.unwrap(), 'Jane')
+    assert.equal(executions, 1)
+  })
+
+  test('do not cache errors and disabled queries', async ({ assert }) => {
+    const bus = new QueryBus()
+    let executions = 0
+
+    bus.use(new CacheQueryBehavior(60, createLogger().logger, createCache()))
+    bus.register(GetUser, {
+      returnsResult: true,
+      handle: async (): Promise<Result<string>> => {
+        executions++
+        return err(['Database unavailable'])
+      },
+    })
+    bus.register(ListUsers, {
+      handle: async () => {
+        executions++
+        return []
+      },
+    })
+
+    const first = await bus.tryExecute(new GetUser(1))
+    const second = await bus.tryExecute(new GetUser(1))
+    assert.isTrue(first.isErr() && second.isErr())
+    await bus.execute(new ListUsers())
+    await bus.execute(new ListUsers())
+    assert.equal(executions, 4)
+  })
+
+  test('build stable keys', ({ assert }) => {
+    assert.equal(
+      stableStringify({ b: 1, a: { d: new Date(0), c: 2n } }),
+      '{"a":{"c":"2n","d":"1970-01-01T00:00:00.000Z"},"b":1}'
+    )
+    assert.equal(
+      resolveQueryCache(Object.assign(new GetUser(1), { filter: { b: 1, a: 2 } }), 60)?.key,
+      resolveQueryCache(Object.assign(new GetUser(1), { filter: { a: 2, b: 1 } }), 60)?.key
+    )
+    assert.deepEqual(resolveQueryCache(new GetUser(1), 60)?.tags, ['users', 'user:1'])
+    assert.equal(resolveQueryCache(new GetUser(1), 60)?.ttl, '5m')
+    assert.isUndefined(resolveQueryCache(new ListUsers(), 60))
+  })
+
+  test('invalidate the tags of successful commands', async ({ assert }) => {
+    const cache = createCache()
+    const queryBus = new QueryBus()
+    const commandBus = new CommandBus()
+    const names: Record<number, string> = { 1: 'Jane' }
+
+    queryBus.use(new CacheQueryBehavior(60, createLogger().logger, cache))
+    queryBus.register(GetUser, { handle: async (query: GetUser) => names[query.id] })
+
+    commandBus.use(new CacheInvalidationCommandBehavior(cache))
+    commandBus.register(RenameUser, {
+      handle: async (command: RenameUser): Promise<Result<void>> => {
+        if (!command.name) {
+          return err(['Name is required'])
+        }
+        names[command.id] = command.name
+        return ok()
+      },
+    })
+
+    assert.equal(await queryBus.execute(new GetUser(1)), 'Jane')
+
+    names[1] = 'Joan'
+    await commandBus.execute(new RenameUser(1, ''))
+    assert.equal(await queryBus.execute(new GetUser(1)), 'Jane')
+
+    await commandBus.execute(new RenameUser(1, 'John'))
+    assert.equal(await queryBus.execute(new GetUser(1)), 'John')
+  })
+})
@@ -1,6 +1,8 @@
 import { test } from '@japa/runner'
 import {
   CommandBus,
+  CommandHandler,
+  CommandHandlerBase,
   ok,
   err,
   isErr,
@@ -29,6 +31,28 @@ class FailingHandler implements ICommandHandler<TestCommand> {
   }
 }
 
+// Command declaring an explicit type
+class TypedCommand implements ICommand {
+  static readonly type = 'users.create'
+  readonly __command: true = true
+  constructor(public value: number) {}
+}
+
+// Handler for commands carrying a value
+class DoubleHandler implements ICommandHandler<ICommand & { value: number }, number> {
+  async handle(command: ICommand & { value: number }): Promise<Result<number>> {
+    return ok(command.value * 2)
+  }
+}
+
+// Handler declaring its command, whatever its name
+@CommandHandler(TestCommand)
+class TripleTestValue extends CommandHandlerBase<TestCommand, number> {
+  async handle(command: TestCommand): Promise<Result<number>> {
+    return ok(command.value * 3)
+  }
+}
+
 test.group('CommandBus', () => {
   test('register and execute command handler', async ({ assert }) => {
     const bus = new CommandBus()
@@ -85,4 +109,89 @@ test.group('CommandBus', () => {
       assert.equal(result.getErrors()[0], 'Unexpected error')
     }
   })
+
+  test('register handler by command class', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.register(TestCommand, new TestHandler())
+
+    const result = await bus.execute(new TestCommand(5))
+    assert.equal(result.unwrap(), 10)
+  })
+
+  test('distinguish command classes sharing the same name', async ({ assert }) => {
+    const bus = new CommandBus()
+    const OtherCommand = (() => {
+      // eslint-disable-next-line @typescript-eslint/no-shadow
+      class TestCommand implements ICommand {
+        readonly __command: true = true
+        constructor(public value: number) {}
+      }
+      return TestCommand
+    })()
+
+    bus.register(TestCommand, new TestHandler())
+    bus.register(OtherCommand, new FailingHandler())
+
+    const result = await bus.execute(new TestCommand(5))
+    const otherResult = await bus.execute(new OtherCommand(5))
+
+    assert.isTrue(result.isOk())
+    assert.isTrue(otherResult.isErr())
+  })
+
+  test('resolve plain objects through their type discriminator', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.register(TypedCommand, new DoubleHandler())
+
+    const fromClass = await bus.execute(new TypedCommand(2))
+    const fromObject = await bus.execute({ __command: true, type: 'users.create', value: 4 })
+
+    assert.equal(fromClass.unwrap(), 4)
+    assert.equal(fromObject.unwrap(), 8)
+  })
+
+  test('register handler by symbol type', async ({ assert }) => {
+    const bus = new CommandBus()
+    const type = Symbol('users.delete')
+    bus.register(type, new DoubleHandler())
+
+    const result = await bus.execute({ __command: true, type, value: 3 })
+    assert.equal(result.unwrap(), 6)
+  })
+
+  test('report plain objects without type as unhandled', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.register('Object', new DoubleHandler())
+
+    const result = await bus.execute({ __command: true, value: 3 })
+    assert.isTrue(result.isErr())
+    if (isErr(result)) {
+      assert.equal(result.getErrors()[0], 'No handler registered for command: Object')
+    }
+  })
+
+  test('base handlers register for the command of their decorator', async ({ assert }) => {
+    const bus = new CommandBus()
+    new TripleTestValue(bus)
+
+    const result = await bus.execute(new TestCommand(2))
+    assert.equal(result.unwrap(), 6)
+  })
+
+  test('throw on duplicate handlers in strict mode', async ({ assert }) => {
+    const bus = new CommandBus()
+    const handler = new TestHandler()
+    bus.register(TestCommand, new FailingHandler())
+    bus.register(TestCommand, handler)
+
+    bus.useStrictMode()
+    bus.register(TestCommand, handler)
+
+    assert.throws(
+      () => bus.register(TestCommand, new TestHandler()),
+      'A handler is already registered for command: TestCommand'
+    )
+    assert.isTrue(bus.hasHandler(TestCommand))
+    assert.isFalse(bus.hasHandler(TypedCommand))
+  })
 })
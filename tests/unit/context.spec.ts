@@ -0,0 +1,140 @@
+import { test } from '@japa/runner'
+import {
+  CommandBus,
+  CqrsContext,
+  EventBus,
+  LoggingCommandBehavior,
+  QueryBus,
+  ok,
+  runAs,
+  type ICommand,
+  type IEvent,
+  type IQuery,
+  type Result,
+} from '../../src/services/index.js'
+import { createLogger } from '../helpers.js'
+
+class ParentCommand implements ICommand {
+  readonly __command: true = true
+}
+
+class ChildCommand implements ICommand {
+  readonly __command: true = true
+}
+
+class ContextQuery implements IQuery {
+  readonly __query: true = true
+}
+
+class SomethingHappened implements IEvent {
+  readonly __event: true = true
+}
+
+test.group('CqrsContext', () => {
+  test('open a context for each command', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.register(ChildCommand, {
+      handle: async (): Promise<Result<CqrsContext | undefined>> => ok(CqrsContext.current()),
+    })
+
+    assert.isUndefined(CqrsContext.current())
+
+    const first = await bus.execute<ChildCommand, CqrsContext>(new ChildCommand()).unwrap()
+    const second = await bus.execute<ChildCommand, CqrsContext>(new ChildCommand()).unwrap()
+
+    assert.instanceOf(first, CqrsContext)
+    assert.equal(first.correlationId, first.messageId)
+    assert.isUndefined(first.causationId)
+    assert.notEqual(first.correlationId, second.correlationId)
+  })
+
+  test('give nested dispatches a child context', async ({ assert }) => {
+    const bus = new CommandBus()
+    const contexts: Record<string, CqrsContext | undefined> = {}
+
+    bus.register(ParentCommand, {
+      handle: async (): Promise<Result<void>> => {
+        contexts.parent = CqrsContext.current()
+        await bus.execute(new ChildCommand())
+        return ok()
+      },
+    })
+    bus.register(ChildCommand, {
+      handle: async (): Promise<Result<void>> => {
+        contexts.child = CqrsContext.current()
+        return ok()
+      },
+    })
+
+    await bus.execute(new ParentCommand())
+
+    assert.equal(contexts.child?.correlationId, contexts.parent?.correlationId)
+    assert.equal(contexts.child?.causationId, contexts.parent?.messageId)
+    assert.notEqual(contexts.child?.messageId, contexts.parent?.messageId)
+  })
+
+  test('queries and events get a child context too', async ({ assert }) => {
+    const queryBus = new QueryBus()
+    const eventBus = new EventBus()
+    const contexts: CqrsContext[] = []
+
+    queryBus.register(ContextQuery, { handle: async () => CqrsContext.current() })
+    eventBus.register(SomethingHappened, {
+      handle: async () => {
+        contexts.push(CqrsContext.current()!)
+      },
+    })
+
+    await CqrsContext.run({ correlationId: 'request-1' }, async () => {
+      contexts.push((await queryBus.execute<CqrsContext>(new ContextQuery()))!)
+      await eventBus.publish(new SomethingHappened())
+    })
+
+    assert.deepEqual(
+      contexts.map((context) => context.correlationId),
+      ['request-1', 'request-1']
+    )
+  })
+
+  test('run extends the current context', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.register(ChildCommand, {
+      handle: async (): Promise<Result<CqrsContext | undefined>> => ok(CqrsContext.current()),
+    })
+
+    const context = await CqrsContext.run({ tenant: 'acme', metadata: { source: 'import' } }, () =>
+      CqrsContext.run(
+        { metadata: { batch: 3 } },
+        async () => await bus.execute<ChildCommand, CqrsContext>(new ChildCommand()).unwrap()
+      )
+    )
+
+    assert.equal(context.tenant, 'acme')
+    assert.deepEqual(context.metadata, { source: 'import', batch: 3 })
+    assert.deepEqual(Object.keys(context.toJSON()), [
+      'correlationId',
+      'causationId',
+      'messageId',
+      'tenant',
+      'metadata',
+    ])
+  })
+
+  test('runAs sets the actor of the context', async ({ assert }) => {
+    const actor = { id: 1 }
+    const context = await runAs(actor, async () => CqrsContext.current())
+    assert.strictEqual(context?.actor, actor)
+  })
+
+  test('log the ids of the context', async ({ assert }) => {
+    const { logger, logs } = createLogger()
+    const bus = new CommandBus()
+    bus.use(new LoggingCommandBehavior(logger))
+    bus.register(ChildCommand, { handle: async (): Promise<Result<void>> => ok() })
+
+    await CqrsContext.run({ correlationId: 'request-1' }, () => bus.execute(new ChildCommand()))
+
+    assert.isTrue(logs().every((log) => log.correlationId === 'request-1'))
+    assert.isTrue(logs().every((log) => typeof log.causationId === 'string'))
+  })
+})
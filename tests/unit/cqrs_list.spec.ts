@@ -0,0 +1,164 @@
+import { test } from '@japa/runner'
+import { AceFactory } from '@adonisjs/core/factories'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import CqrsList from '../../commands/cqrs_list.js'
+import {
+  CommandBus,
+  EventBus,
+  QueryBus,
+  UseBehaviors,
+  ValidationCommandBehavior,
+  ok,
+  rememberHandlerSource,
+  type CommandBehavior,
+  type ICommand,
+  type ICommandHandler,
+  type IEvent,
+  type Result,
+} from '../../src/services/index.js'
+
+class AuditBehavior implements CommandBehavior {
+  async handle<TCommand extends ICommand, TResult>(
+    command: TCommand,
+    next: (command: TCommand) => Promise<Result<TResult>>
+  ): Promise<Result<TResult>> {
+    return next(command)
+  }
+}
+
+class TimingBehavior extends AuditBehavior {}
+
+@UseBehaviors(AuditBehavior)
+class ArchiveUserCommand implements ICommand {
+  readonly __command: true = true
+}
+
+class UserArchivedEvent implements IEvent {
+  readonly __event: true = true
+}
+
+@UseBehaviors(TimingBehavior)
+class ArchiveUserCommandHandler implements ICommandHandler<ArchiveUserCommand> {
+  async handle(): Promise<Result<void>> {
+    return ok()
+  }
+}
+
+test.group('Registrations', () => {
+  test('list the handlers of the buses', ({ assert }) => {
+    const commandBus = new CommandBus()
+    const queryBus = new QueryBus()
+    const eventBus = new EventBus()
+
+    commandBus.register(ArchiveUserCommand, ArchiveUserCommandHandler, { scope: 'transient' })
+    queryBus.register('ListUsersQuery', { handle: async () => [] })
+    eventBus.register(UserArchivedEvent, { handle: async () => {} })
+    eventBus.register(UserArchivedEvent, { handle: async () => {} })
+
+    const [registration] = commandBus.registrations()
+    assert.deepEqual(registration, {
+      kind: 'command',
+      message: 'ArchiveUserCommand',
+      messageClass: ArchiveUserCommand,
+      handler: 'ArchiveUserCommandHandler',
+      handlerClass: ArchiveUserCommandHandler,
+      scope: 'transient',
+      source: undefined,
+    })
+    assert.containsSubset(queryBus.registrations(), [
+      { kind: 'query', message: 'ListUsersQuery', handler: 'anonymous' },
+    ])
+    assert.lengthOf(eventBus.registrations(), 2)
+  })
+
+  test('list the behaviors of a handler in pipeline order', ({ assert }) => {
+    const bus = new CommandBus()
+    const when = () => true
+    bus.use(new ValidationCommandBehavior())
+    bus.use(new AuditBehavior(), { when })
+    bus.register(ArchiveUserCommand, new ArchiveUserCommandHandler())
+
+    const [registration] = bus.registrations()
+    const pipeline = bus.pipeline(registration)
+
+    assert.lengthOf(bus.pipeline(), 2)
+    assert.deepEqual(
+      pipeline.map(({ behavior }) => behavior.constructor),
+      [ValidationCommandBehavior, AuditBehavior, AuditBehavior, TimingBehavior]
+    )
+    assert.strictEqual(pipeline[1].when, when)
+  })
+})
+
+test.group('cqrs:list', (group) => {
+  let appRoot: string
+
+  group.each.setup(async () => {
+    appRoot = await mkdtemp(join(tmpdir(), 'cqrs-'))
+    return () => rm(appRoot, { recursive: true, force: true })
+  })
+
+  /**
+   * Creates an ace kernel for an application rooted in the temporary
+   * directory, with a command handler discovered in "app/handlers"
+   */
+  async function createKernel() {
+    const ace = await new AceFactory().make(pathToFileURL(`${appRoot}/`), {
+      importer: () => {},
+    })
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+
+    const commandBus = new CommandBus()
+    commandBus.use(new ValidationCommandBehavior(), { when: () => true })
+    commandBus.register(ArchiveUserCommand, ArchiveUserCommandHandler)
+    rememberHandlerSource(
+      ArchiveUserCommandHandler,
+      join(appRoot, 'app/handlers/archive_user_command_handler.ts')
+    )
+
+    ace.app.container.singleton(CommandBus, () => commandBus)
+    ace.app.container.singleton(QueryBus, () => new QueryBus())
+    ace.app.container.singleton(EventBus, () => new EventBus())
+    return ace
+  }
+
+  test('print the registered messages as JSON', async ({ assert }) => {
+    const ace = await createKernel()
+    const command = await ace.create(CqrsList, ['--json'])
+    await command.exec()
+
+    const [log] = command.logger.getLogs()
+    assert.deepEqual(JSON.parse(log.message), [
+      {
+        kind: 'command',
+        message: 'ArchiveUserCommand',
+        handler: 'ArchiveUserCommandHandler',
+        scope: 'singleton',
+        source: 'app/handlers/archive_user_command_handler.ts',
+        behaviors: [
+          { name: 'ValidationCommandBehavior', conditional: true },
+          { name: 'AuditBehavior', conditional: false },
+          { name: 'TimingBehavior', conditional: false },
+        ],
+      },
+    ])
+  })
+
+  test('print the registered messages as a table', async ({ assert }) => {
+    const ace = await createKernel()
+    const command = await ace.create(CqrsList, [])
+    await command.exec()
+
+    const output = command.ui.logger
+      .getLogs()
+      .map((log) => log.message)
+      .join('\n')
+
+    assert.include(output, 'ArchiveUserCommandHandler (singleton)')
+    assert.include(output, 'ValidationCommandBehavior? > AuditBehavior > TimingBehavior')
+  })
+})
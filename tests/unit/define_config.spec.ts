@@ -0,0 +1,71 @@
+import { test } from '@japa/runner'
+import { defineConfig } from '../../src/define_config.js'
+import {
+  CacheQueryBehavior,
+  LoggingCommandBehavior,
+  LoggingEventBehavior,
+  LoggingQueryBehavior,
+  TransactionCommandBehavior,
+  ValidationCommandBehavior,
+} from '../../src/services/index.js'
+
+test.group('defineConfig', () => {
+  test('use default behaviors and discovery settings', ({ assert }) => {
+    const config = defineConfig({})
+
+    assert.deepEqual(config.behaviors.commands, [
+      ValidationCommandBehavior,
+      LoggingCommandBehavior,
+      TransactionCommandBehavior,
+    ])
+    assert.deepEqual(config.behaviors.queries, [LoggingQueryBehavior])
+    assert.deepEqual(config.behaviors.events, [LoggingEventBehavior])
+    assert.deepEqual(config.discovery.directories, ['app/application'])
+    assert.deepEqual(config.discovery.suffixes, ['_handler', '.handler'])
+    assert.deepEqual(config.discovery.sagaSuffixes, ['_saga', '.saga'])
+    assert.deepEqual(config.discovery.commandSuffixes, ['_command', '.command'])
+    assert.deepEqual(config.discovery.querySuffixes, ['_query', '.query'])
+    assert.isUndefined(config.strict)
+    assert.equal(config.sagas.store, 'memory')
+    assert.isTrue(config.logging)
+  })
+
+  test('override only the given options', ({ assert }) => {
+    const cache = new CacheQueryBehavior(60)
+    const config = defineConfig({
+      behaviors: { commands: [ValidationCommandBehavior], queries: [cache] },
+      discovery: { directories: ['app/features'] },
+      logging: false,
+    })
+
+    assert.deepEqual(config.behaviors.commands, [ValidationCommandBehavior])
+    assert.deepEqual(config.behaviors.queries, [cache])
+    assert.deepEqual(config.behaviors.events, [LoggingEventBehavior])
+    assert.deepEqual(config.discovery.directories, ['app/features'])
+    assert.deepEqual(config.discovery.suffixes, ['_handler', '.handler'])
+    assert.isFalse(config.logging)
+  })
+
+  test('merge outbox options with the defaults', ({ assert }) => {
+    const config = defineConfig({ outbox: { poll: true, batchSize: 10 } })
+
+    assert.deepEqual(config.outbox, {
+      table: 'cqrs_outbox',
+      batchSize: 10,
+      pollInterval: 1000,
+      maxAttempts: 10,
+      backoff: 1000,
+      poll: true,
+    })
+  })
+
+  test('queue commands in memory by default', ({ assert }) => {
+    const config = defineConfig({ queue: { driver: 'database', maxAttempts: 5 } })
+
+    assert.equal(defineConfig({}).queue.driver, 'memory')
+    assert.equal(config.queue.driver, 'database')
+    assert.equal(config.queue.maxAttempts, 5)
+    assert.equal(config.queue.defaultQueue, 'default')
+    assert.deepEqual(config.queue.work, [])
+  })
+})
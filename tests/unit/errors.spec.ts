@@ -0,0 +1,196 @@
+import { test } from '@japa/runner'
+import type { HttpContext } from '@adonisjs/core/http'
+import {
+  CommandBus,
+  CommandExecutionError,
+  CQRError,
+  HandlerNotFoundError,
+  IdempotencyCommandBehavior,
+  MemoryIdempotencyStore,
+  ValidationCommandBehavior,
+  ValidationError,
+  err,
+  errMessage,
+  renderErrors,
+  toCqrError,
+  toErrorResponse,
+  type ICommand,
+  type Result,
+} from '../../src/services/index.js'
+
+class TestCommand implements ICommand {
+  readonly __command: true = true
+  constructor(public value: number) {}
+}
+
+test.group('Structured errors', () => {
+  test('errors carry a code and an HTTP status', ({ assert }) => {
+    assert.equal(new CQRError('Failed').code, 'E_CQRS_ERROR')
+    assert.equal(new CQRError('Failed').status, 400)
+    assert.equal(new HandlerNotFoundError('command', 'Test').status, 500)
+    assert.equal(new HandlerNotFoundError('command', 'Test').code, 'E_HANDLER_NOT_FOUND')
+    assert.equal(new ValidationError(['Invalid']).status, 422)
+
+    const error = new CQRError('User not found', { code: 'E_USER_NOT_FOUND', status: 404 })
+    assert.deepEqual(error.toJSON(), {
+      code: 'E_USER_NOT_FOUND',
+      message: 'User not found',
+      status: 404,
+    })
+  })
+
+  test('toCqrError wraps other errors and keeps them as the cause', ({ assert }) => {
+    const original = Object.assign(new Error('Row not found'), {
+      code: 'E_ROW_NOT_FOUND',
+      status: 404,
+    })
+    const wrapped = toCqrError(original)
+
+    assert.equal(wrapped.message, 'Row not found')
+    assert.equal(wrapped.code, 'E_ROW_NOT_FOUND')
+    assert.equal(wrapped.status, 404)
+    assert.strictEqual(wrapped.cause, original)
+
+    assert.equal(toCqrError(new Error('Boom')).status, 500)
+    assert.equal(toCqrError(42, 'Failed').message, 'Failed')
+  })
+
+  test('err keeps the errors it is given', ({ assert }) => {
+    const validation = new ValidationError(['Email is required'], { email: ['Email is required'] })
+    const result = err([validation, 'Other failure'])
+
+    assert.isTrue(result.isErr())
+    if (result.isErr()) {
+      assert.strictEqual(result.error[0], validation)
+      assert.equal(result.error[1].message, 'Other failure')
+      assert.deepEqual(result.getErrors(), ['Email is required', 'Other failure'])
+    }
+  })
+
+  test('errMessage accepts the code, status and details', ({ assert }) => {
+    const result = errMessage('User not found', { code: 'E_USER_NOT_FOUND', status: 404 })
+    assert.equal(result.isErr() ? result.error[0].status : 0, 404)
+  })
+
+  test('unwrap throws the error of the result', ({ assert }) => {
+    const validation = new ValidationError(['Invalid'])
+
+    try {
+      err([validation]).unwrap()
+      assert.fail('Should have thrown')
+    } catch (error) {
+      assert.strictEqual(error, validation)
+    }
+  })
+
+  test('the command bus keeps thrown errors', async ({ assert }) => {
+    const bus = new CommandBus()
+    const failure = new Error('Connection lost')
+
+    bus.register('TestCommand', {
+      async handle(command: TestCommand): Promise<Result<number>> {
+        if (command.value === 0) {
+          throw new ValidationError(['Value is required'])
+        }
+        throw failure
+      },
+    })
+
+    const validation = await bus.execute(new TestCommand(0))
+    assert.instanceOf(validation.isErr() ? validation.error[0] : null, ValidationError)
+
+    const unexpected = await bus.execute(new TestCommand(1))
+    const [error] = unexpected.isErr() ? unexpected.error : []
+    assert.instanceOf(error, CommandExecutionError)
+    assert.strictEqual(error.cause, failure)
+    assert.equal(error.status, 500)
+
+    const missing = await new CommandBus().execute(new TestCommand(1))
+    assert.instanceOf(missing.isErr() ? missing.error[0] : null, HandlerNotFoundError)
+  })
+
+  test('ValidationCommandBehavior returns a ValidationError with the details', async ({
+    assert,
+  }) => {
+    const bus = new CommandBus()
+    bus.use(new ValidationCommandBehavior())
+    bus.register('TestCommand', { handle: async () => err(['Unreachable']) })
+
+    const command = Object.assign(new TestCommand(0), {
+      validate: () => ({
+        isValid: false,
+        errors: ['Value is required'],
+        details: { value: ['Value is required'] },
+      }),
+    })
+
+    const result = await bus.execute(command)
+    const [error] = result.isErr() ? result.error : []
+    assert.instanceOf(error, ValidationError)
+    assert.deepEqual(error.details, { value: ['Value is required'] })
+  })
+
+  test('idempotency stores keep the code and status of the errors', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.use(
+      new IdempotencyCommandBehavior({ store: new MemoryIdempotencyStore(), storeErrors: true })
+    )
+    bus.register('TestCommand', {
+      handle: async () => errMessage('Payment declined', { code: 'E_DECLINED', status: 402 }),
+    })
+
+    const command = Object.assign(new TestCommand(1), { idempotencyKey: 'payment-1' })
+    await bus.execute(command)
+    const duplicate = await bus.execute(command)
+
+    const [error] = duplicate.isErr() ? duplicate.error : []
+    assert.equal(error.code, 'E_DECLINED')
+    assert.equal(error.status, 402)
+  })
+})
+
+test.group('HTTP errors', () => {
+  test('map errors to their HTTP status', ({ assert }) => {
+    const validation = err([
+      new ValidationError(['Email is required'], { email: ['Email is required'] }),
+    ])
+
+    assert.deepEqual(toErrorResponse(validation), {
+      status: 422,
+      body: {
+        errors: [
+          {
+            code: 'E_VALIDATION_ERROR',
+            message: 'Validation failed: Email is required',
+            status: 422,
+            details: { email: ['Email is required'] },
+          },
+        ],
+      },
+    })
+
+    assert.equal(toErrorResponse(new HandlerNotFoundError('query', 'Test')).status, 500)
+    assert.equal(toErrorResponse(new Error('Boom')).status, 500)
+    assert.equal(toErrorResponse(['Bad request']).status, 400)
+  })
+
+  test('render errors as a JSON response', ({ assert }) => {
+    const sent: { status?: number; body?: unknown } = {}
+    const response = {
+      status(status: number) {
+        sent.status = status
+        return this
+      },
+      send(body: unknown) {
+        sent.body = body
+      },
+    }
+
+    renderErrors({ response } as unknown as HttpContext, errMessage('Not found', { status: 404 }))
+
+    assert.equal(sent.status, 404)
+    assert.deepEqual(sent.body, {
+      errors: [{ code: 'E_CQRS_ERROR', message: 'Not found', status: 404 }],
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { test } from '@japa/runner'
+import {
+  EventBus,
+  LoggingEventBehavior,
+  isErr,
+  type IEvent,
+  type IEventHandler,
+} from '../../src/services/index.js'
+import { createLogger } from '../helpers.js'
+
+// Test event
+class TestEvent implements IEvent {
+  readonly __event: true = true
+  constructor(public value: number) {}
+}
+
+// Recording handler
+class RecordingHandler implements IEventHandler<TestEvent> {
+  received: number[] = []
+
+  async handle(event: TestEvent): Promise<void> {
+    this.received.push(event.value)
+  }
+}
+
+test.group('EventBus', () => {
+  test('publish event to every registered handler', async ({ assert }) => {
+    const bus = new EventBus()
+    const first = new RecordingHandler()
+    const second = new RecordingHandler()
+
+    bus.register('TestEvent', first)
+    bus.register('TestEvent', second)
+
+    const result = await bus.publish(new TestEvent(5))
+    assert.isTrue(result.isOk())
+    assert.deepEqual(first.received, [5])
+    assert.deepEqual(second.received, [5])
+  })
+
+  test('publish event without handlers', async ({ assert }) => {
+    const bus = new EventBus()
+
+    const result = await bus.publish(new TestEvent(5))
+    assert.isTrue(result.isOk())
+  })
+
+  test('register the same handler instance only once', async ({ assert }) => {
+    const bus = new EventBus()
+    const handler = new RecordingHandler()
+
+    bus.register('TestEvent', handler)
+    bus.register('TestEvent', handler)
+
+    await bus.publish(new TestEvent(5))
+    assert.deepEqual(handler.received, [5])
+  })
+
+  test('failing handler does not prevent other handlers from running', async ({ assert }) => {
+    const bus = new EventBus()
+    const handler = new RecordingHandler()
+
+    class ThrowingHandler implements IEventHandler<TestEvent> {
+      async handle(): Promise<void> {
+        throw new Error('Handler failed')
+      }
+    }
+
+    bus.register('TestEvent', new ThrowingHandler())
+    bus.register('TestEvent', handler)
+
+    const result = await bus.publish(new TestEvent(5))
+    assert.isTrue(result.isErr())
+    if (isErr(result)) {
+      assert.deepEqual(result.getErrors(), ['Handler failed'])
+    }
+    assert.deepEqual(handler.received, [5])
+  })
+
+  test('fan out to handlers registered by class and by name', async ({ assert }) => {
+    const bus = new EventBus()
+    const byClass = new RecordingHandler()
+    const byName = new RecordingHandler()
+
+    bus.register(TestEvent, byClass)
+    bus.register('TestEvent', byName)
+
+    await bus.publish(new TestEvent(5))
+    assert.deepEqual(byClass.received, [5])
+    assert.deepEqual(byName.received, [5])
+  })
+
+  test('LoggingEventBehavior logs publication', async ({ assert }) => {
+    const { logger, logs } = createLogger()
+    const bus = new EventBus()
+    bus.use(new LoggingEventBehavior(logger))
+    bus.register('TestEvent', new RecordingHandler())
+
+    const result = await bus.publish(new TestEvent(5))
+    assert.isTrue(result.isOk())
+    assert.deepEqual(
+      logs().map((log) => log.msg),
+      ['Publishing event TestEvent', 'Event TestEvent published']
+    )
+  })
+})
@@ -0,0 +1,193 @@
+import { test } from '@japa/runner'
+import { inject } from '@adonisjs/core'
+import { Container } from '@adonisjs/core/container'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { HttpContext } from '@adonisjs/core/http'
+import {
+  CommandBus,
+  CommandHandlerBase,
+  CqrsContext,
+  EventBus,
+  QueryBus,
+  isErr,
+  ok,
+  type HandlerScope,
+  type ICommand,
+  type ICommandHandler,
+  type IEvent,
+  type IQuery,
+  type Result,
+} from '../../src/services/index.js'
+
+class CountCommand implements ICommand {
+  readonly __command: true = true
+}
+
+class CountQuery implements IQuery {
+  readonly __query: true = true
+}
+
+class CountedEvent implements IEvent {
+  readonly __event: true = true
+}
+
+let created = 0
+
+class CountCommandHandler implements ICommandHandler<CountCommand, number> {
+  readonly instance = ++created
+
+  async handle(): Promise<Result<number>> {
+    return ok(this.instance)
+  }
+}
+
+class TransientCountedEventHandler {
+  static scope: HandlerScope = 'transient'
+  readonly instance = ++created
+
+  async handle() {}
+}
+
+class NamedQueryHandler {
+  async handle() {
+    return CqrsContext.current()?.handlerName
+  }
+}
+
+@inject()
+class RequestQueryHandler {
+  static scope: HandlerScope = 'request'
+
+  constructor(readonly ctx: HttpContext) {}
+
+  async handle() {
+    return this
+  }
+}
+
+class CountCommandBaseHandler extends CommandHandlerBase<CountCommand, number> {
+  static scope: HandlerScope = 'transient'
+  readonly instance = ++created
+
+  async handle(): Promise<Result<number>> {
+    return ok(this.instance)
+  }
+}
+
+/**
+ * Runs a callback as if it was handling the given HTTP request
+ */
+async function duringRequest<T>(ctx: HttpContext, callback: () => Promise<T>): Promise<T> {
+  const get = HttpContext.get
+  HttpContext.get = () => ctx
+
+  try {
+    return await callback()
+  } finally {
+    HttpContext.get = get
+  }
+}
+
+test.group('Handler resolution', (group) => {
+  group.each.setup(() => {
+    created = 0
+  })
+
+  test('create handlers registered by class on the first dispatch', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.register(CountCommand, CountCommandHandler)
+
+    assert.equal(created, 0)
+    assert.equal(await bus.execute(new CountCommand()).unwrap(), 1)
+    assert.equal(await bus.execute(new CountCommand()).unwrap(), 1)
+    assert.equal(created, 1)
+  })
+
+  test('create transient handlers on every dispatch', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.register(CountCommand, CountCommandHandler, { scope: 'transient' })
+
+    assert.equal(await bus.execute(new CountCommand()).unwrap(), 1)
+    assert.equal(await bus.execute(new CountCommand()).unwrap(), 2)
+  })
+
+  test('read the scope of the handler class', async ({ assert }) => {
+    const bus = new EventBus()
+    bus.register(CountedEvent, TransientCountedEventHandler)
+
+    await bus.publish(new CountedEvent())
+    await bus.publish(new CountedEvent())
+
+    assert.equal(created, 2)
+  })
+
+  test('create request handlers from the resolver of the request', async ({ assert }) => {
+    const container = new Container()
+    const bus = new QueryBus()
+    bus.useResolver(container)
+    bus.register(CountQuery, RequestQueryHandler)
+
+    const requests = [new HttpContextFactory().create(), new HttpContextFactory().create()]
+    for (const ctx of requests) {
+      const resolver = container.createResolver()
+      resolver.bindValue(HttpContext, ctx)
+      ctx.containerResolver = resolver
+    }
+
+    const [first, again] = await duringRequest(requests[0], async () => [
+      await bus.execute<RequestQueryHandler>(new CountQuery()),
+      await bus.execute<RequestQueryHandler>(new CountQuery()),
+    ])
+    const second = await duringRequest(requests[1], () =>
+      bus.execute<RequestQueryHandler>(new CountQuery())
+    )
+
+    assert.strictEqual(first, again)
+    assert.strictEqual(first.ctx, requests[0])
+    assert.strictEqual(second.ctx, requests[1])
+  })
+
+  test('record the class name of handlers registered by class', async ({ assert }) => {
+    const bus = new QueryBus()
+    bus.register(CountQuery, NamedQueryHandler)
+
+    assert.equal(await bus.execute(new CountQuery()), 'NamedQueryHandler')
+  })
+
+  test('keep the class registration of handler base classes', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.useResolver({ make: async (HandlerClass) => new HandlerClass(bus) })
+    bus.register(CountCommand, CountCommandBaseHandler)
+
+    assert.equal(await bus.execute(new CountCommand()).unwrap(), 1)
+    assert.equal(await bus.execute(new CountCommand()).unwrap(), 2)
+  })
+
+  test('keep the class registration of handler base classes in strict mode', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.useStrictMode()
+    bus.useResolver({ make: async (HandlerClass) => new HandlerClass(bus) })
+    bus.register(CountCommand, CountCommandBaseHandler)
+
+    assert.equal(await bus.execute(new CountCommand()).unwrap(), 1)
+    assert.equal(await bus.execute(new CountCommand()).unwrap(), 2)
+    assert.lengthOf(bus.registrations(), 1)
+  })
+
+  test('return an Err when the handler cannot be created', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.useResolver({
+      make: async () => {
+        throw new Error('Cannot resolve dependency')
+      },
+    })
+    bus.register(CountCommand, CountCommandHandler)
+
+    const result = await bus.execute(new CountCommand())
+
+    assert.isTrue(result.isErr())
+    if (isErr(result)) {
+      assert.deepEqual(result.getErrors(), ['Cannot resolve dependency'])
+    }
+  })
+})
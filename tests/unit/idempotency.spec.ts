@@ -0,0 +1,284 @@
+import { test } from '@japa/runner'
+import type { CacheService } from '@adonisjs/cache/types'
+import { BentoCache, bentostore } from '@adonisjs/cache'
+import { memoryDriver } from 'bentocache/drivers/memory'
+import {
+  CacheIdempotencyStore,
+  CommandBus,
+  DatabaseIdempotencyStore,
+  IdempotencyCommandBehavior,
+  MemoryIdempotencyStore,
+  err,
+  runAs,
+  resolveIdempotencyKey,
+  ok,
+  type ICommand,
+  type ICommandHandler,
+  type IdempotencyOptions,
+  type IdempotencyStore,
+  type Result,
+} from '../../src/services/index.js'
+import { createDatabase } from '../helpers.js'
+
+class PlaceOrderCommand implements ICommand {
+  readonly __command: true = true
+  constructor(
+    public idempotencyKey: string,
+    public amount: number
+  ) {}
+}
+
+class ChargeCommand implements ICommand {
+  static idempotent = true
+  readonly __command: true = true
+  constructor(public amount: number) {}
+}
+
+class ShipCommand implements ICommand {
+  static idempotent = true
+  readonly __command: true = true
+  address: Record<string, string> = {}
+}
+
+class RefundCommand implements ICommand {
+  static idempotent = (command: RefundCommand) => command.paymentId
+  readonly __command: true = true
+  constructor(public paymentId: string) {}
+}
+
+// Handler placing orders with increasing ids
+class CountingHandler implements ICommandHandler<any, number> {
+  executions = 0
+  failures = 0
+
+  constructor(private delay = 0) {}
+
+  async handle(): Promise<Result<number>> {
+    await new Promise((resolve) => setTimeout(resolve, this.delay))
+
+    if (this.failures > 0) {
+      this.failures--
+      return err(['Payment declined'])
+    }
+
+    return ok(++this.executions)
+  }
+}
+
+function setup(options: Partial<IdempotencyOptions> = {}, delay = 0) {
+  const bus = new CommandBus()
+  const handler = new CountingHandler(delay)
+
+  bus.use(new IdempotencyCommandBehavior(options))
+  bus.register(PlaceOrderCommand, handler)
+  bus.register(ChargeCommand, handler)
+  bus.register(RefundCommand, handler)
+
+  return { bus, handler }
+}
+
+test.group('IdempotencyCommandBehavior', () => {
+  test('return the result of the first execution to duplicates', async ({ assert }) => {
+    const { bus, handler } = setup()
+
+    const first = await bus.execute<PlaceOrderCommand, number>(new PlaceOrderCommand('abc', 10))
+    const duplicate = await bus.execute<PlaceOrderCommand, number>(new PlaceOrderCommand('abc', 10))
+    const other = await bus.execute<PlaceOrderCommand, number>(new PlaceOrderCommand('def', 10))
+
+    assert.equal(first.unwrap(), 1)
+    assert.equal(duplicate.unwrap(), 1)
+    assert.equal(other.unwrap(), 2)
+    assert.equal(handler.executions, 2)
+  })
+
+  test('execute commands without idempotency key every time', async ({ assert }) => {
+    const bus = new CommandBus()
+    const handler = new CountingHandler()
+    bus.use(new IdempotencyCommandBehavior())
+    bus.register('Plain', handler)
+
+    await bus.execute({ type: 'Plain', __command: true as const })
+    await bus.execute({ type: 'Plain', __command: true as const })
+
+    assert.equal(handler.executions, 2)
+  })
+
+  test('use the hash of commands declared as idempotent', async ({ assert }) => {
+    const { bus, handler } = setup()
+
+    await bus.execute(new ChargeCommand(10))
+    await bus.execute(new ChargeCommand(10))
+    await bus.execute(new ChargeCommand(20))
+
+    assert.equal(handler.executions, 2)
+  })
+
+  test('hash idempotent commands independently of the order of their fields', async ({
+    assert,
+  }) => {
+    const first = new ShipCommand()
+    first.address = { city: 'Paris', street: 'Rue de Rivoli' }
+    const second = new ShipCommand()
+    second.address = { street: 'Rue de Rivoli', city: 'Paris' }
+
+    assert.equal(resolveIdempotencyKey(first), resolveIdempotencyKey(second))
+  })
+
+  test('scope the hash of idempotent commands to their sender', async ({ assert }) => {
+    const { bus, handler } = setup()
+
+    await runAs({ id: 1 }, () => bus.execute(new ChargeCommand(10)))
+    await runAs({ id: 1 }, () => bus.execute(new ChargeCommand(10)))
+    await runAs({ id: 2 }, () => bus.execute(new ChargeCommand(10)))
+
+    assert.equal(handler.executions, 2)
+    assert.notEqual(
+      resolveIdempotencyKey(new ChargeCommand(10)),
+      runAs({ id: 1 }, () => resolveIdempotencyKey(new ChargeCommand(10)))
+    )
+  })
+
+  test('scope client idempotency keys to their sender', async ({ assert }) => {
+    const { bus, handler } = setup()
+    const place = () => bus.execute<PlaceOrderCommand, number>(new PlaceOrderCommand('abc', 10))
+
+    const first = await runAs({ id: 1 }, place)
+    const duplicate = await runAs({ id: 1 }, place)
+    const other = await runAs({ id: 2 }, place)
+
+    assert.equal(first.unwrap(), 1)
+    assert.equal(duplicate.unwrap(), 1)
+    assert.equal(other.unwrap(), 2)
+    assert.equal(handler.executions, 2)
+  })
+
+  test('use the key computed by the command class', async ({ assert }) => {
+    assert.equal(resolveIdempotencyKey(new RefundCommand('pay_1')), 'RefundCommand:pay_1')
+    assert.equal(resolveIdempotencyKey(new PlaceOrderCommand('abc', 10)), 'PlaceOrderCommand:abc')
+    assert.isUndefined(resolveIdempotencyKey({ __command: true } as ICommand))
+  })
+
+  test('wait for the execution in progress', async ({ assert }) => {
+    const { bus, handler } = setup({}, 20)
+
+    const results = await Promise.all([
+      bus.execute<PlaceOrderCommand, number>(new PlaceOrderCommand('abc', 10)),
+      bus.execute<PlaceOrderCommand, number>(new PlaceOrderCommand('abc', 10)),
+    ])
+
+    assert.deepEqual(
+      results.map((result) => result.unwrap()),
+      [1, 1]
+    )
+    assert.equal(handler.executions, 1)
+  })
+
+  test('wait for the execution of another process', async ({ assert }) => {
+    const store = new MemoryIdempotencyStore()
+    const { bus, handler } = setup({ store, pollInterval: 5 })
+
+    await store.reserve('PlaceOrderCommand:abc', 1000)
+    setTimeout(() => store.complete('PlaceOrderCommand:abc', { ok: true, value: 42 }, 1000), 20)
+
+    const result = await bus.execute<PlaceOrderCommand, number>(new PlaceOrderCommand('abc', 10))
+
+    assert.equal(result.unwrap(), 42)
+    assert.equal(handler.executions, 0)
+  })
+
+  test('stop waiting after the lock timeout', async ({ assert }) => {
+    const store = new MemoryIdempotencyStore()
+    const { bus, handler } = setup({ store, lockTimeout: 20, pollInterval: 5 })
+
+    await store.reserve('PlaceOrderCommand:abc', 1000)
+    const result = await bus.execute(new PlaceOrderCommand('abc', 10))
+
+    assert.isTrue(result.isErr())
+    assert.equal(handler.executions, 0)
+  })
+
+  test('execute failed commands again', async ({ assert }) => {
+    const { bus, handler } = setup()
+    handler.failures = 1
+
+    const failure = await bus.execute(new PlaceOrderCommand('abc', 10))
+    const retry = await bus.execute<PlaceOrderCommand, number>(new PlaceOrderCommand('abc', 10))
+
+    assert.isTrue(failure.isErr())
+    assert.equal(retry.unwrap(), 1)
+  })
+
+  test('return failures to duplicates when storing errors', async ({ assert }) => {
+    const { bus, handler } = setup({ storeErrors: true })
+    handler.failures = 1
+
+    await bus.execute(new PlaceOrderCommand('abc', 10))
+    const duplicate = await bus.execute(new PlaceOrderCommand('abc', 10))
+
+    assert.deepEqual(duplicate.isErr() ? duplicate.getErrors() : [], ['Payment declined'])
+    assert.equal(handler.executions, 0)
+  })
+
+  test('execute duplicates again once the result expired', async ({ assert }) => {
+    const { bus, handler } = setup({ ttl: 10 })
+
+    await bus.execute(new PlaceOrderCommand('abc', 10))
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    await bus.execute(new PlaceOrderCommand('abc', 10))
+
+    assert.equal(handler.executions, 2)
+  })
+})
+
+/**
+ * Runs the same scenario against every store
+ */
+async function assertStoreContract(assert: any, store: IdempotencyStore) {
+  assert.isNull(await store.get('key'))
+  assert.isTrue(await store.reserve('key', 1000))
+  assert.isFalse(await store.reserve('key', 1000))
+  assert.deepEqual(await store.get('key'), { status: 'pending' })
+
+  await store.complete('key', { ok: true, value: { id: 1 } }, 1000)
+  assert.deepEqual(await store.get('key'), {
+    status: 'completed',
+    result: { ok: true, value: { id: 1 } },
+  })
+  assert.isFalse(await store.reserve('key', 1000))
+
+  await store.release('key')
+  assert.isNull(await store.get('key'))
+  assert.isTrue(await store.reserve('key', 1000))
+}
+
+test.group('Idempotency stores', () => {
+  test('memory store', async ({ assert }) => {
+    await assertStoreContract(assert, new MemoryIdempotencyStore())
+  })
+
+  test('database store', async ({ assert, cleanup }) => {
+    const db = createDatabase()
+    cleanup(() => db.manager.closeAll())
+    await db.connection().schema.createTable('cqrs_idempotency_keys', (table) => {
+      table.string('key').primary()
+      table.text('result').nullable()
+      table.bigInteger('expires_at')
+    })
+
+    const store = new DatabaseIdempotencyStore(db)
+    await assertStoreContract(assert, store)
+
+    // Expired reservations are replaced
+    assert.isTrue(await store.reserve('expired', -1))
+    assert.isTrue(await store.reserve('expired', 1000))
+  })
+
+  test('cache store', async ({ assert }) => {
+    const cache = new BentoCache({
+      default: 'memory',
+      stores: { memory: bentostore().useL1Layer(memoryDriver()) },
+    })
+
+    await assertStoreContract(assert, new CacheIdempotencyStore(cache as unknown as CacheService))
+  })
+})
@@ -0,0 +1,118 @@
+import { test } from '@japa/runner'
+import { AceFactory } from '@adonisjs/core/factories'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import MakeCommand from '../../commands/make_command.js'
+import MakeEvent from '../../commands/make_event.js'
+import MakeHandler from '../../commands/make_handler.js'
+import MakeQuery from '../../commands/make_query.js'
+
+test.group('Make commands', (group) => {
+  let appRoot: string
+
+  group.each.setup(async () => {
+    appRoot = await mkdtemp(join(tmpdir(), 'cqrs-'))
+    return () => rm(appRoot, { recursive: true, force: true })
+  })
+
+  /**
+   * Creates an ace kernel for an application rooted in the temporary directory
+   */
+  async function createKernel() {
+    const ace = await new AceFactory().make(pathToFileURL(`${appRoot}/`), {
+      importer: () => {},
+    })
+    await ace.app.init()
+    ace.ui.switchMode('raw')
+    return ace
+  }
+
+  test('make:command writes the command and its handler', async ({ assert }) => {
+    const ace = await createKernel()
+    const command = await ace.create(MakeCommand, ['CreateUser'])
+    await command.exec()
+
+    const message = await readFile(
+      join(appRoot, 'app/application/commands/create_user_command.ts'),
+      'utf-8'
+    )
+    const handler = await readFile(
+      join(appRoot, 'app/application/handlers/create_user_command_handler.ts'),
+      'utf-8'
+    )
+
+    assert.include(message, 'export class CreateUserCommand implements ICommand')
+    assert.include(
+      handler,
+      'export default class CreateUserCommandHandler extends CommandHandlerBase<CreateUserCommand>'
+    )
+    assert.include(
+      handler,
+      `import type { CreateUserCommand } from '../commands/create_user_command.js'`
+    )
+  })
+
+  test('make:query does not repeat the suffix and keeps nested paths', async ({ assert }) => {
+    const ace = await createKernel()
+    const command = await ace.create(MakeQuery, ['users/GetUserQuery'])
+    await command.exec()
+
+    const message = await readFile(
+      join(appRoot, 'app/application/queries/users/get_user_query.ts'),
+      'utf-8'
+    )
+    const handler = await readFile(
+      join(appRoot, 'app/application/handlers/users/get_user_query_handler.ts'),
+      'utf-8'
+    )
+
+    assert.include(message, 'export class GetUserQuery implements IQuery')
+    assert.include(handler, 'export default class GetUserQueryHandler extends QueryHandlerBase')
+    assert.include(handler, `from '../../queries/users/get_user_query.js'`)
+  })
+
+  test('make:event writes the event and its handler', async ({ assert }) => {
+    const ace = await createKernel()
+    const command = await ace.create(MakeEvent, ['UserCreated'])
+    await command.exec()
+
+    const message = await readFile(
+      join(appRoot, 'app/application/events/user_created_event.ts'),
+      'utf-8'
+    )
+    const handler = await readFile(
+      join(appRoot, 'app/application/handlers/user_created_event_handler.ts'),
+      'utf-8'
+    )
+
+    assert.include(message, 'export class UserCreatedEvent implements IEvent')
+    assert.include(handler, 'export default class UserCreatedEventHandler extends EventHandlerBase')
+  })
+
+  test('make:handler guesses the kind of message from its name', async ({ assert }) => {
+    const ace = await createKernel()
+    const command = await ace.create(MakeHandler, ['UserCreatedEvent'])
+    await command.exec()
+
+    const handler = await readFile(
+      join(appRoot, 'app/application/handlers/user_created_event_handler.ts'),
+      'utf-8'
+    )
+
+    assert.include(handler, 'export default class UserCreatedEventHandler extends EventHandlerBase')
+    await assert.rejects(() =>
+      readFile(join(appRoot, 'app/application/events/user_created_event.ts'), 'utf-8')
+    )
+  })
+
+  test('make:handler fails when the kind of message is unknown', async ({ assert }) => {
+    const ace = await createKernel()
+    const command = await ace.create(MakeHandler, ['CreateUser'])
+    await command.exec()
+
+    assert.equal(command.exitCode, 1)
+    command.assertLogMatches(/Unable to guess the kind of message/)
+  })
+})
@@ -0,0 +1,131 @@
+import { test } from '@japa/runner'
+import type { HttpContext, Router } from '@adonisjs/core/http'
+import {
+  CommandBus,
+  MetricsCommandBehavior,
+  MetricsQueryBehavior,
+  MetricsRegistry,
+  QueryBus,
+  ValidationError,
+  err,
+  ok,
+  registerMetricsRoute,
+  type ICommand,
+  type IQuery,
+  type Result,
+} from '../../src/services/index.js'
+
+class CreateUser implements ICommand {
+  readonly __command: true = true
+  constructor(public email: string) {}
+}
+
+class GetUser implements IQuery {
+  readonly __query: true = true
+  constructor(public id: number) {}
+}
+
+test.group('Metrics behaviors', () => {
+  test('count the commands by outcome', async ({ assert }) => {
+    const registry = new MetricsRegistry()
+    const bus = new CommandBus()
+    bus.use(new MetricsCommandBehavior(registry))
+    bus.register(CreateUser, {
+      handle: async (command: CreateUser): Promise<Result<void>> => {
+        if (command.email === 'taken') {
+          return err([new ValidationError(['Email already used'])])
+        }
+        if (command.email === 'crash') {
+          throw new Error('Connection lost')
+        }
+        return ok()
+      },
+    })
+
+    await bus.execute(new CreateUser('jane@example.com'))
+    await bus.execute(new CreateUser('taken'))
+    await bus.execute(new CreateUser('crash'))
+
+    assert.equal(registry.counter('command', 'CreateUser', 'dispatched'), 3)
+    assert.equal(registry.counter('command', 'CreateUser', 'succeeded'), 1)
+    assert.equal(registry.counter('command', 'CreateUser', 'failed'), 1)
+    assert.equal(registry.counter('command', 'CreateUser', 'threw'), 1)
+  })
+
+  test('count the queries by outcome', async ({ assert }) => {
+    const registry = new MetricsRegistry()
+    const bus = new QueryBus()
+    bus.use(new MetricsQueryBehavior(registry))
+    bus.register(GetUser, {
+      handle: async (query: GetUser) => {
+        if (query.id === 0) {
+          throw new Error('User not found')
+        }
+        return { id: query.id }
+      },
+    })
+
+    await bus.execute(new GetUser(1))
+    await assert.rejects(async () => {
+      await bus.execute(new GetUser(0))
+    }, /User not found/)
+
+    assert.equal(registry.counter('query', 'GetUser', 'dispatched'), 2)
+    assert.equal(registry.counter('query', 'GetUser', 'succeeded'), 1)
+    assert.equal(registry.counter('query', 'GetUser', 'threw'), 1)
+  })
+
+  test('expose the metrics in the Prometheus text format', ({ assert }) => {
+    const registry = new MetricsRegistry([0.1, 1])
+    registry.dispatched('command', 'CreateUser')
+    registry.observe('command', 'CreateUser', 'succeeded', 0.5)
+
+    const labels = 'kind="command",message="CreateUser"'
+    const lines = registry.toPrometheus().split('\n')
+
+    assert.includeMembers(lines, [
+      '# TYPE cqrs_messages_dispatched_total counter',
+      `cqrs_messages_dispatched_total{${labels}} 1`,
+      `cqrs_messages_succeeded_total{${labels}} 1`,
+      `cqrs_messages_failed_total{${labels}} 0`,
+      '# TYPE cqrs_message_duration_seconds histogram',
+      `cqrs_message_duration_seconds_bucket{${labels},le="0.1"} 0`,
+      `cqrs_message_duration_seconds_bucket{${labels},le="1"} 1`,
+      `cqrs_message_duration_seconds_bucket{${labels},le="+Inf"} 1`,
+      `cqrs_message_duration_seconds_sum{${labels}} 0.5`,
+      `cqrs_message_duration_seconds_count{${labels}} 1`,
+    ])
+  })
+
+  test('serve the metrics from a route', ({ assert }) => {
+    const registry = new MetricsRegistry()
+    registry.dispatched('query', 'Say "hi"')
+
+    const routes: Record<string, (ctx: HttpContext) => void> = {}
+    const router = {
+      get(path: string, handler: (ctx: HttpContext) => void) {
+        routes[path] = handler
+      },
+    }
+    registerMetricsRoute(router as unknown as Router, { path: '/internal/metrics', registry })
+
+    const sent: { headers: Record<string, string>; body?: string } = { headers: {} }
+    const response = {
+      header(name: string, value: string) {
+        sent.headers[name] = value
+        return this
+      },
+      send(body: string) {
+        sent.body = body
+      },
+    }
+
+    routes['/internal/metrics']({ response } as unknown as HttpContext)
+
+    assert.match(sent.headers['Content-Type'], /^text\/plain; version=0\.0\.4/)
+    assert.include(
+      sent.body,
+      'cqrs_messages_dispatched_total{kind="query",message="Say \\"hi\\""} 1'
+    )
+  })
+})
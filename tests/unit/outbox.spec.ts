@@ -0,0 +1,293 @@
+import { test } from '@japa/runner'
+import { Emitter } from '@adonisjs/core/events'
+import { LoggerFactory } from '@adonisjs/core/factories/logger'
+import { AppFactory } from '@adonisjs/core/factories/app'
+import { Database } from '@adonisjs/lucid/database'
+import {
+  CommandBus,
+  EventBus,
+  Outbox,
+  OutboxRelay,
+  TransactionCommandBehavior,
+  currentTransaction,
+  err,
+  ok,
+  type ICommand,
+  type ICommandHandler,
+  type IEvent,
+  type IEventHandler,
+  type Result,
+} from '../../src/services/index.js'
+
+const OUTBOX_CONFIG = {
+  table: 'cqrs_outbox',
+  batchSize: 50,
+  pollInterval: 1000,
+  maxAttempts: 3,
+  backoff: 0,
+  poll: false,
+}
+
+class RegisterUserCommand implements ICommand {
+  static readonly type = 'users.register'
+  readonly __command: true = true
+  constructor(
+    public name: string,
+    public fail = false
+  ) {}
+}
+
+class UserRegisteredEvent implements IEvent {
+  static readonly type = 'users.registered'
+  readonly __event: true = true
+  constructor(public name: string) {}
+}
+
+// Messages registered by their class name, as discovered by convention
+class BanUserCommand implements ICommand {
+  static readonly type = 'users.ban'
+  readonly __command: true = true
+  constructor(public name: string) {}
+}
+
+class UserBannedEvent implements IEvent {
+  static readonly type = 'users.banned'
+  readonly __event: true = true
+  constructor(public name: string) {}
+}
+
+class RegisterUserHandler implements ICommandHandler<RegisterUserCommand> {
+  constructor(
+    private db: Database,
+    private outbox: Outbox
+  ) {}
+
+  async handle(command: RegisterUserCommand): Promise<Result<void>> {
+    await this.db
+      .table('users')
+      .useTransaction(currentTransaction()!)
+      .insert({ name: command.name })
+    await this.outbox.publish(new UserRegisteredEvent(command.name))
+    return command.fail ? err(['Registration refused']) : ok(undefined)
+  }
+}
+
+class RecordingHandler implements IEventHandler<UserRegisteredEvent> {
+  received: UserRegisteredEvent[] = []
+  fail = false
+
+  async handle(event: UserRegisteredEvent): Promise<void> {
+    if (this.fail) {
+      throw new Error('Mailer is down')
+    }
+    this.received.push(event)
+  }
+}
+
+/**
+ * Creates an in-memory SQLite database with the users and outbox tables
+ */
+async function setup() {
+  const app = new AppFactory().create(new URL('./', import.meta.url), () => {})
+  const db = new Database(
+    {
+      connection: 'sqlite',
+      connections: {
+        sqlite: {
+          client: 'better-sqlite3',
+          connection: { filename: ':memory:' },
+          useNullAsDefault: true,
+        },
+      },
+    },
+    new LoggerFactory().create(),
+    new Emitter(app)
+  )
+
+  await db.connection().schema.createTable('users', (table) => {
+    table.increments('id')
+    table.string('name')
+  })
+  await db.connection().schema.createTable(OUTBOX_CONFIG.table, (table) => {
+    table.increments('id')
+    table.string('kind')
+    table.string('type')
+    table.text('payload')
+    table.integer('attempts').defaultTo(0)
+    table.text('last_error').nullable()
+    table.bigInteger('available_at')
+    table.timestamp('created_at')
+    table.timestamp('processed_at').nullable()
+  })
+
+  const outbox = new Outbox(db, OUTBOX_CONFIG)
+  const commandBus = new CommandBus()
+  const eventBus = new EventBus()
+  const listener = new RecordingHandler()
+
+  commandBus.use(new TransactionCommandBehavior(db))
+  commandBus.register(RegisterUserCommand, new RegisterUserHandler(db, outbox))
+  eventBus.register(UserRegisteredEvent, listener)
+
+  const relay = new OutboxRelay(outbox, commandBus, eventBus, OUTBOX_CONFIG)
+
+  return { db, outbox, commandBus, eventBus, listener, relay }
+}
+
+test.group('Outbox', (group) => {
+  let context: Awaited<ReturnType<typeof setup>>
+
+  group.each.setup(async () => {
+    context = await setup()
+    return () => context.db.manager.closeAll()
+  })
+
+  test('record messages in the transaction of the command', async ({ assert }) => {
+    const { commandBus, outbox, db } = context
+
+    const result = await commandBus.execute(new RegisterUserCommand('virk'))
+    assert.isTrue(result.isOk())
+
+    const pending = await outbox.pending(10)
+    assert.lengthOf(pending, 1)
+    assert.equal(pending[0].kind, 'event')
+    assert.equal(pending[0].type, 'users.registered')
+    assert.deepEqual(pending[0].payload, { __event: true, name: 'virk' })
+    assert.lengthOf(await db.from('users'), 1)
+  })
+
+  test('discard messages when the command fails', async ({ assert }) => {
+    const { commandBus, outbox, db } = context
+
+    const result = await commandBus.execute(new RegisterUserCommand('virk', true))
+    assert.isTrue(result.isErr())
+
+    assert.lengthOf(await outbox.pending(10), 0)
+    assert.lengthOf(await db.from('users'), 0)
+  })
+
+  test('notify commit listeners once the transaction is committed', async ({ assert }) => {
+    const { commandBus, outbox } = context
+    let notified = 0
+    outbox.onCommit(() => notified++)
+
+    await commandBus.execute(new RegisterUserCommand('virk', true))
+    assert.equal(notified, 0)
+
+    await commandBus.execute(new RegisterUserCommand('virk'))
+    assert.equal(notified, 1)
+  })
+
+  test('record commands outside of a transaction', async ({ assert }) => {
+    const { outbox } = context
+
+    await outbox.dispatch(new RegisterUserCommand('romain'))
+
+    const pending = await outbox.pending(10)
+    assert.lengthOf(pending, 1)
+    assert.equal(pending[0].kind, 'command')
+    assert.equal(pending[0].type, 'users.register')
+  })
+})
+
+test.group('OutboxRelay', (group) => {
+  let context: Awaited<ReturnType<typeof setup>>
+
+  group.each.setup(async () => {
+    context = await setup()
+    return () => context.db.manager.closeAll()
+  })
+
+  test('dispatch pending messages and mark them as processed', async ({ assert }) => {
+    const { outbox, relay, listener, db } = context
+
+    await outbox.dispatch(new RegisterUserCommand('romain'))
+    assert.equal(await relay.relay(), 1)
+
+    // The relayed command recorded an event in its own transaction
+    assert.lengthOf(await db.from('users'), 1)
+    assert.equal(await relay.relay(), 1)
+    assert.lengthOf(listener.received, 1)
+    assert.instanceOf(listener.received[0], UserRegisteredEvent)
+    assert.equal(listener.received[0].name, 'romain')
+
+    assert.lengthOf(await outbox.pending(10), 0)
+    assert.equal(await relay.relay(), 0)
+  })
+
+  test('rebuild messages registered by their class name', async ({ assert }) => {
+    const { outbox, relay, commandBus, eventBus } = context
+    const relayed: unknown[] = []
+
+    commandBus.register('BanUserCommand', {
+      handle: async (command: BanUserCommand) => ok(relayed.push(command)),
+    })
+    eventBus.register('UserBannedEvent', {
+      handle: async (event: UserBannedEvent) => {
+        relayed.push(event)
+      },
+    })
+
+    await outbox.dispatch(new BanUserCommand('virk'))
+    await outbox.publish(new UserBannedEvent('virk'))
+
+    assert.equal(await relay.relay(), 2)
+    assert.instanceOf(relayed[0], BanUserCommand)
+    assert.instanceOf(relayed[1], UserBannedEvent)
+  })
+
+  test('retry failed messages up to the max attempts', async ({ assert }) => {
+    const { outbox, relay, listener, db } = context
+    listener.fail = true
+
+    await outbox.publish(new UserRegisteredEvent('virk'))
+
+    for (let attempt = 0; attempt < OUTBOX_CONFIG.maxAttempts; attempt++) {
+      assert.equal(await relay.relay(), 0)
+    }
+
+    assert.lengthOf(await outbox.pending(10), 0)
+    const [row] = await db.from(OUTBOX_CONFIG.table)
+    assert.equal(row.attempts, OUTBOX_CONFIG.maxAttempts)
+    assert.include(row.last_error, 'Mailer is down')
+    assert.isNull(row.processed_at)
+  })
+
+  test('wait for the backoff before retrying failed messages', async ({ assert }) => {
+    const { db, listener, commandBus, eventBus } = context
+    const outbox = new Outbox(db, { ...OUTBOX_CONFIG, backoff: 60_000 })
+    const relay = new OutboxRelay(outbox, commandBus, eventBus, OUTBOX_CONFIG)
+    listener.fail = true
+
+    await outbox.publish(new UserRegisteredEvent('virk'))
+
+    assert.deepEqual(await relay.drain(), { dispatched: 0, failed: 1 })
+    assert.lengthOf(await outbox.pending(10), 0)
+
+    const [row] = await db.from(OUTBOX_CONFIG.table)
+    assert.isAbove(Number(row.available_at), Date.now() + 50_000)
+    assert.equal(row.attempts, 1)
+  })
+
+  test('drain the outbox until no message is pending', async ({ assert }) => {
+    const { outbox, relay, listener } = context
+
+    await outbox.publish(new UserRegisteredEvent('virk'))
+    await outbox.publish(new UserRegisteredEvent('romain'))
+
+    assert.deepEqual(await relay.drain(), { dispatched: 2, failed: 0 })
+    assert.lengthOf(listener.received, 2)
+  })
+
+  test('relay messages right after the commit when started', async ({ assert }) => {
+    const { commandBus, relay, listener } = context
+
+    relay.start()
+    await commandBus.execute(new RegisterUserCommand('virk'))
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    await relay.stop()
+
+    assert.isFalse(relay.isPolling)
+    assert.lengthOf(listener.received, 1)
+  })
+})
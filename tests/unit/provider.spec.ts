@@ -0,0 +1,328 @@
+import { test } from '@japa/runner'
+import { AppFactory } from '@adonisjs/core/factories/app'
+import { LoggerFactory } from '@adonisjs/core/factories/logger'
+import type { ApplicationService, LoggerService } from '@adonisjs/core/types'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { defineConfig } from '../../src/define_config.js'
+import {
+  CommandBus,
+  EventBus,
+  QueryBus,
+  SagaManager,
+  ValidationCommandBehavior,
+  type ICommand,
+} from '../../src/services/index.js'
+import CQRSProvider from '../../src/services/cqrs_provider.js'
+import type { CqrsConfigInput } from '../../src/types.js'
+
+class PingCommand implements ICommand {
+  readonly __command: true = true
+}
+
+/**
+ * Creates an application rooted in a temporary directory and
+ * registers/boots the CQRS provider with the given config
+ */
+async function setupProvider(appRoot: string, config?: CqrsConfigInput) {
+  const app = new AppFactory().create(pathToFileURL(`${appRoot}/`), () => {}) as ApplicationService
+  await app.init()
+  if (config) {
+    app.useConfig({ cqrs: defineConfig(config) })
+  }
+  await app.boot()
+  app.container.singleton('logger', () => new LoggerFactory().create() as unknown as LoggerService)
+
+  const provider = new CQRSProvider(app)
+  await provider.register()
+  await provider.boot()
+
+  return app
+}
+
+test.group('CQRSProvider', (group) => {
+  let appRoot: string
+
+  group.each.setup(async () => {
+    appRoot = await mkdtemp(join(tmpdir(), 'cqrs-'))
+    await writeFile(join(appRoot, 'package.json'), JSON.stringify({ type: 'module' }))
+    return () => rm(appRoot, { recursive: true, force: true })
+  })
+
+  test('register buses with the configured behaviors', async ({ assert }) => {
+    const app = await setupProvider(appRoot, {
+      behaviors: { commands: [ValidationCommandBehavior], queries: [], events: [] },
+      logging: false,
+    })
+
+    const commandBus = await app.container.make(CommandBus)
+    const queryBus = await app.container.make(QueryBus)
+    const eventBus = await app.container.make(EventBus)
+
+    assert.lengthOf(commandBus['behaviors'], 1)
+    assert.instanceOf(commandBus['behaviors'][0].behavior, ValidationCommandBehavior)
+    assert.lengthOf(queryBus['behaviors'], 0)
+    assert.lengthOf(eventBus['behaviors'], 0)
+  })
+
+  test('keep the predicate of conditional behaviors', async ({ assert }) => {
+    const when = (command: object) => 'email' in command
+    const app = await setupProvider(appRoot, {
+      behaviors: { commands: [{ behavior: ValidationCommandBehavior, when }] },
+      logging: false,
+    })
+
+    const commandBus = await app.container.make(CommandBus)
+
+    assert.instanceOf(commandBus['behaviors'][0].behavior, ValidationCommandBehavior)
+    assert.strictEqual(commandBus['behaviors'][0].when, when)
+  })
+
+  test('discover handlers in the configured directories', async ({ assert }) => {
+    await mkdir(join(appRoot, 'app/features'), { recursive: true })
+    await writeFile(
+      join(appRoot, 'app/features/ping_command_handler.js'),
+      'export default class PingCommandHandler { async handle() {} }'
+    )
+    await writeFile(
+      join(appRoot, 'app/features/ping_query.handler.js'),
+      'export default class PingQueryHandler { async handle() {} }'
+    )
+    await writeFile(
+      join(appRoot, 'app/features/pinged_event_listener.js'),
+      'export default class PingedEventHandler { async handle() {} }'
+    )
+
+    const app = await setupProvider(appRoot, {
+      discovery: { directories: ['app/features'], suffixes: ['_handler', '.handler', '_listener'] },
+      logging: false,
+    })
+
+    const commandBus = await app.container.make(CommandBus)
+    const queryBus = await app.container.make(QueryBus)
+    const eventBus = await app.container.make(EventBus)
+
+    assert.isTrue(commandBus['handlers'].has('PingCommand'))
+    assert.equal(
+      commandBus.registrations()[0].source,
+      join(appRoot, 'app/features/ping_command_handler.js')
+    )
+    assert.isTrue(queryBus['handlers'].has('PingQuery'))
+    assert.lengthOf(eventBus['handlers'].get('PingedEvent')!, 1)
+  })
+
+  test('register the decorated handlers of every export', async ({ assert }) => {
+    const handlersModule = new URL('../../src/services/handlers.ts', import.meta.url)
+    await mkdir(join(appRoot, 'app/features'), { recursive: true })
+    await writeFile(
+      join(appRoot, 'app/features/users_handler.js'),
+      [
+        `import { CommandHandler, EventHandler, QueryHandler } from '${handlersModule.href}'`,
+        `export class CreateUser { async handle() {} }`,
+        `CommandHandler('CreateUserCommand')(CreateUser)`,
+        `export class ListUsers { async handle() {} }`,
+        `QueryHandler('ListUsersQuery')(ListUsers)`,
+        `export class SendEmails { async handle() {} }`,
+        `EventHandler('UserCreatedEvent', 'UserInvitedEvent')(SendEmails)`,
+        `export class UnrelatedCommandHandler { async handle() {} }`,
+        `export default SendEmails`,
+      ].join('\n')
+    )
+
+    const app = await setupProvider(appRoot, {
+      discovery: { directories: ['app/features'] },
+      logging: false,
+    })
+
+    const commandBus = await app.container.make(CommandBus)
+    const queryBus = await app.container.make(QueryBus)
+    const eventBus = await app.container.make(EventBus)
+
+    assert.deepEqual([...commandBus['handlers'].keys()], ['CreateUserCommand'])
+    assert.deepEqual([...queryBus['handlers'].keys()], ['ListUsersQuery'])
+    assert.lengthOf(eventBus['handlers'].get('UserCreatedEvent')!, 1)
+    assert.lengthOf(eventBus['handlers'].get('UserInvitedEvent')!, 1)
+  })
+
+  test('create discovered handlers when their messages are dispatched', async ({ assert }) => {
+    await mkdir(join(appRoot, 'app/features'), { recursive: true })
+    await writeFile(
+      join(appRoot, 'app/features/ping_command_handler.js'),
+      [
+        `export default class PingCommandHandler {`,
+        `  constructor() { globalThis.pingHandlers = (globalThis.pingHandlers ?? 0) + 1 }`,
+        `  async handle() { return { isOk: () => true } }`,
+        `}`,
+      ].join('\n')
+    )
+
+    const app = await setupProvider(appRoot, {
+      discovery: { directories: ['app/features'] },
+      behaviors: { commands: [] },
+      logging: false,
+      strict: false,
+    })
+    const commandBus = await app.container.make(CommandBus)
+    const globals = globalThis as { pingHandlers?: number }
+
+    assert.isUndefined(globals.pingHandlers)
+    await commandBus.execute(new PingCommand())
+    await commandBus.execute(new PingCommand())
+    assert.equal(globals.pingHandlers, 1)
+    delete globals.pingHandlers
+  })
+
+  test('fail the boot on handler errors in strict mode', async ({ assert }) => {
+    const files = {
+      duplicate: [
+        [
+          'ping_command_handler.js',
+          'export default class PingCommandHandler { async handle() {} }',
+        ],
+        ['other/ping_command_handler.js', 'export default class PingCommandHandler {}'],
+      ],
+      import: [['ping_command_handler.js', 'export default class PingCommandHandler {']],
+      construct: [
+        [
+          'ping_command_handler.js',
+          'export default class PingCommandHandler { constructor() { throw new Error("No db") } }',
+        ],
+      ],
+    }
+    const errors = {
+      duplicate: /A handler is already registered for command: PingCommand/,
+      import: /Failed to register the handlers \(app\/import\/ping_command_handler.js\)/,
+      construct: /No db/,
+    }
+
+    // Each failure has its own directory, as imported modules are cached
+    for (const [failure, handlers] of Object.entries(files)) {
+      await mkdir(join(appRoot, 'app', failure, 'other'), { recursive: true })
+      for (const [file, contents] of handlers) {
+        await writeFile(join(appRoot, 'app', failure, file), contents)
+      }
+
+      await assert.rejects(
+        async () => {
+          await setupProvider(appRoot, {
+            discovery: { directories: [`app/${failure}`] },
+            logging: false,
+            strict: true,
+          })
+        },
+        errors[failure as keyof typeof errors]
+      )
+    }
+  })
+
+  test('report commands and queries without handler in strict mode', async ({ assert }) => {
+    await mkdir(join(appRoot, 'app/features'), { recursive: true })
+    await writeFile(
+      join(appRoot, 'app/features/ping_command.js'),
+      'export class PingCommand { __command = true }'
+    )
+    await writeFile(
+      join(appRoot, 'app/features/ping_command_handler.js'),
+      'export default class PingCommandHandler { async handle() {} }'
+    )
+    await writeFile(
+      join(appRoot, 'app/features/pong_query.js'),
+      'export class PongQuery { __query = true }'
+    )
+    await writeFile(
+      join(appRoot, 'app/features/pong_query_handler.js'),
+      'export default class PongQeuryHandler { async handle() {} }'
+    )
+
+    await assert.rejects(async () => {
+      await setupProvider(appRoot, {
+        discovery: { directories: ['app/features'] },
+        logging: false,
+        strict: true,
+      })
+    }, 'No handler registered for query PongQuery (app/features/pong_query.js)')
+  })
+
+  test('skip the helpers exported next to commands in strict mode', async ({ assert }) => {
+    await mkdir(join(appRoot, 'app/features'), { recursive: true })
+    await writeFile(
+      join(appRoot, 'app/features/ping_command.js'),
+      [
+        'export class BaseCommand { __command = true }',
+        'export class PingCommand extends BaseCommand {}',
+        'export function makePingCommand() { return new PingCommand() }',
+      ].join('\n')
+    )
+    await writeFile(
+      join(appRoot, 'app/features/ping_command_handler.js'),
+      'export default class PingCommandHandler { async handle() {} }'
+    )
+
+    const app = await setupProvider(appRoot, {
+      discovery: { directories: ['app/features'] },
+      logging: false,
+      strict: true,
+    })
+
+    const commandBus = await app.container.make(CommandBus)
+    assert.lengthOf(commandBus.registrations(), 1)
+  })
+
+  test('log handler errors outside strict mode', async ({ assert }) => {
+    await mkdir(join(appRoot, 'app/features'), { recursive: true })
+    await writeFile(
+      join(appRoot, 'app/features/ping_command_handler.js'),
+      'export default class PingCommandHandler {'
+    )
+    await writeFile(
+      join(appRoot, 'app/features/pong_query.js'),
+      'export class PongQuery { __query = true }'
+    )
+
+    const app = await setupProvider(appRoot, {
+      discovery: { directories: ['app/features'] },
+      logging: false,
+      strict: false,
+    })
+
+    const commandBus = await app.container.make(CommandBus)
+    assert.lengthOf(commandBus.registrations(), 0)
+  })
+
+  test('discover sagas in the configured directories', async ({ assert }) => {
+    const sagaModule = new URL('../../src/services/saga.ts', import.meta.url)
+    await mkdir(join(appRoot, 'app/features/orders'), { recursive: true })
+    await writeFile(
+      join(appRoot, 'app/features/orders/order_saga.js'),
+      [
+        `import { Saga } from '${sagaModule.href}'`,
+        `export default class OrderSaga extends Saga {`,
+        `  setup() { this.startedBy('OrderPlacedEvent', (event) => event.orderId, async () => {}) }`,
+        `}`,
+      ].join('\n')
+    )
+
+    const app = await setupProvider(appRoot, {
+      discovery: { directories: ['app/features'] },
+      logging: false,
+    })
+
+    const sagaManager = await app.container.make(SagaManager)
+    const eventBus = await app.container.make(EventBus)
+
+    assert.deepEqual(
+      sagaManager.sagas.map((saga) => saga.sagaName),
+      ['OrderSaga']
+    )
+    assert.lengthOf(eventBus['handlers'].get('OrderPlacedEvent')!, 1)
+  })
+
+  test('use defaults when the config file is missing', async ({ assert }) => {
+    const app = await setupProvider(appRoot)
+
+    const commandBus = await app.container.make(CommandBus)
+    assert.lengthOf(commandBus['behaviors'], 3)
+  })
+})
@@ -3,7 +3,12 @@ import {
   QueryBus,
   type IQuery,
   type IQueryHandler,
+  type QueryBehavior,
   HandlerNotFoundError,
+  QueryFailedError,
+  err,
+  ok,
+  type Result,
 } from '../../src/services/index.js'
 
 // Test query
@@ -77,4 +82,134 @@ test.group('QueryBus', () => {
       await bus.execute(query)
     }, 'Query failed')
   })
+
+  test('register handler by query class', async ({ assert }) => {
+    const bus = new QueryBus()
+    bus.register(TestQuery, new TestHandler())
+
+    const result = await bus.execute(new TestQuery(5))
+    assert.equal(result, 15)
+  })
+
+  test('resolve plain objects through their type discriminator', async ({ assert }) => {
+    const bus = new QueryBus()
+
+    class TypedQuery implements IQuery {
+      static readonly type = 'users.find'
+      readonly __query: true = true
+      constructor(public value: number) {}
+    }
+
+    bus.register(TypedQuery, new TestHandler())
+
+    const query = { __query: true as const, type: 'users.find', value: 2 }
+    const result = await bus.execute(query)
+    assert.equal(result, 6)
+  })
+})
+
+// Behavior rejecting queries with a negative value
+class PositiveValueBehavior implements QueryBehavior {
+  async handle<TResult>(query: IQuery, next: (query: IQuery) => Promise<TResult>) {
+    if ((query as TestQuery).value < 0) {
+      return err(['Value must be positive'])
+    }
+    return next(query)
+  }
+}
+
+// Handler returning a Result
+class ResultHandler implements IQueryHandler<TestQuery, Result<number>> {
+  readonly returnsResult = true
+
+  async handle(query: TestQuery): Promise<Result<number>> {
+    return query.value === 0 ? err(['Value is zero']) : ok(query.value * 2)
+  }
+}
+
+test.group('QueryBus - Result mode', () => {
+  test('tryExecute wraps the value of the handler', async ({ assert }) => {
+    const bus = new QueryBus()
+    bus.register('TestQuery', new TestHandler())
+
+    const result = await bus.tryExecute<number>(new TestQuery(5))
+    assert.isTrue(result.isOk())
+    assert.equal(result.unwrap(), 15)
+  })
+
+  test('tryExecute returns an Err when no handler is registered', async ({ assert }) => {
+    const bus = new QueryBus()
+
+    const result = await bus.tryExecute(new TestQuery(5))
+    assert.deepEqual(result.isErr() ? result.getErrors() : [], [
+      'No handler registered for query: TestQuery',
+    ])
+  })
+
+  test('tryExecute returns an Err when the handler throws', async ({ assert }) => {
+    const bus = new QueryBus()
+
+    class ThrowingHandler implements IQueryHandler<TestQuery, number> {
+      async handle(): Promise<number> {
+        throw new Error('Query failed')
+      }
+    }
+
+    bus.register('TestQuery', new ThrowingHandler())
+
+    const result = await bus.tryExecute(new TestQuery(5))
+    assert.deepEqual(result.isErr() ? result.getErrors() : [], ['Query failed'])
+  })
+
+  test('tryExecute does not wrap the results of the handler', async ({ assert }) => {
+    const bus = new QueryBus()
+    bus.register('TestQuery', new ResultHandler())
+
+    const success = await bus.tryExecute<number>(new TestQuery(4))
+    assert.equal(success.unwrap(), 8)
+
+    const failure = await bus.tryExecute<number>(new TestQuery(0))
+    assert.deepEqual(failure.isErr() ? failure.getErrors() : [], ['Value is zero'])
+  })
+
+  test('behaviors short-circuit tryExecute with an Err', async ({ assert }) => {
+    const bus = new QueryBus()
+    const handler = new TestHandler()
+    const handle = handler.handle.bind(handler)
+    let handled = false
+    handler.handle = async (query) => {
+      handled = true
+      return handle(query)
+    }
+
+    bus.use(new PositiveValueBehavior())
+    bus.register('TestQuery', handler)
+
+    const result = await bus.tryExecute(new TestQuery(-1))
+    assert.deepEqual(result.isErr() ? result.getErrors() : [], ['Value must be positive'])
+    assert.isFalse(handled)
+  })
+
+  test('execute throws a QueryFailedError when a behavior short-circuits', async ({ assert }) => {
+    const bus = new QueryBus()
+    bus.use(new PositiveValueBehavior())
+    bus.register('TestQuery', new TestHandler())
+
+    try {
+      await bus.execute(new TestQuery(-1))
+      assert.fail('Should have thrown')
+    } catch (error) {
+      assert.instanceOf(error, QueryFailedError)
+      assert.deepEqual((error as QueryFailedError).errors, ['Value must be positive'])
+    }
+  })
+
+  test('execute returns the Err for handlers returning results', async ({ assert }) => {
+    const bus = new QueryBus()
+    bus.use(new PositiveValueBehavior())
+    bus.register('TestQuery', new ResultHandler())
+
+    const result = await bus.execute<Result<number>>(new TestQuery(-1))
+    assert.deepEqual(result.isErr() ? result.getErrors() : [], ['Value must be positive'])
+  })
 })
@@ -0,0 +1,457 @@
+import { test } from '@japa/runner'
+import { Emitter } from '@adonisjs/core/events'
+import { AppFactory } from '@adonisjs/core/factories/app'
+import { LoggerFactory } from '@adonisjs/core/factories/logger'
+import { Database } from '@adonisjs/lucid/database'
+import type { Connection } from '@adonisjs/redis/types'
+import RedisMock from 'ioredis-mock'
+import {
+  CommandBus,
+  DatabaseQueueDriver,
+  MemoryQueueDriver,
+  MessageSerializationError,
+  QueueWorker,
+  RedisQueueDriver,
+  ValidationCommandBehavior,
+  err,
+  ok,
+  type ICommand,
+  type CommandBehavior,
+  type ICommandHandler,
+  type QueueDriver,
+  type Result,
+} from '../../src/services/index.js'
+import vine from '@vinejs/vine'
+import { createLogger } from '../helpers.js'
+
+const QUEUE_CONFIG = {
+  table: 'cqrs_jobs',
+  maxAttempts: 2,
+  backoff: 0,
+  pollInterval: 10,
+  retryAfter: 90_000,
+}
+
+class SendEmailCommand implements ICommand {
+  static readonly type = 'emails.send'
+  readonly __command: true = true
+  constructor(public to: string) {}
+}
+
+class SendEmailHandler implements ICommandHandler<SendEmailCommand> {
+  sent: SendEmailCommand[] = []
+  failures = 0
+
+  async handle(command: SendEmailCommand): Promise<Result<void>> {
+    if (this.failures > 0) {
+      this.failures--
+      return err(['SMTP server unavailable'])
+    }
+
+    this.sent.push(command)
+    return ok(undefined)
+  }
+}
+
+// Command registered by its class name, as discovered by convention
+class InviteUserCommand implements ICommand {
+  static validator = vine.compile(vine.object({ email: vine.string().email() }))
+  readonly __command: true = true
+  constructor(public email: string) {}
+}
+
+// Command registered by its class name, queued under its type
+class ArchiveUserCommand implements ICommand {
+  static readonly type = 'users.archive'
+  readonly __command: true = true
+  constructor(public userId: number) {}
+}
+
+function setup(driver: QueueDriver) {
+  const commandBus = new CommandBus()
+  const handler = new SendEmailHandler()
+
+  commandBus.register(SendEmailCommand, handler)
+  commandBus.useQueue(driver)
+
+  const worker = new QueueWorker(commandBus, driver, QUEUE_CONFIG)
+  return { commandBus, handler, worker }
+}
+
+async function createDatabase() {
+  const app = new AppFactory().create(new URL('./', import.meta.url), () => {})
+  const db = new Database(
+    {
+      connection: 'sqlite',
+      connections: {
+        sqlite: {
+          client: 'better-sqlite3',
+          connection: { filename: ':memory:' },
+          useNullAsDefault: true,
+        },
+      },
+    },
+    new LoggerFactory().create(),
+    new Emitter(app)
+  )
+
+  await db.connection().schema.createTable(QUEUE_CONFIG.table, (table) => {
+    table.increments('id')
+    table.string('queue')
+    table.string('type')
+    table.text('payload')
+    table.integer('attempts').defaultTo(0)
+    table.text('last_error').nullable()
+    table.bigInteger('available_at')
+    table.bigInteger('reserved_at').nullable()
+    table.timestamp('failed_at').nullable()
+    table.timestamp('created_at')
+  })
+
+  return db
+}
+
+test.group('CommandBus - dispatch', () => {
+  test('queue commands for the worker', async ({ assert }) => {
+    const driver = new MemoryQueueDriver()
+    const { commandBus, handler, worker } = setup(driver)
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+    assert.lengthOf(handler.sent, 0)
+    assert.equal(driver.size('default'), 1)
+
+    assert.isTrue(await worker.work('default'))
+    assert.isFalse(await worker.work('default'))
+    assert.lengthOf(handler.sent, 1)
+    assert.instanceOf(handler.sent[0], SendEmailCommand)
+    assert.equal(handler.sent[0].to, 'virk@adonisjs.com')
+  })
+
+  test('dispatch on a named queue', async ({ assert }) => {
+    const driver = new MemoryQueueDriver()
+    const { commandBus, worker } = setup(driver)
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'), { queue: 'emails' })
+
+    assert.isFalse(await worker.work('default'))
+    assert.isTrue(await worker.work('emails'))
+  })
+
+  test('delay commands', async ({ assert }) => {
+    const driver = new MemoryQueueDriver()
+    const { commandBus, worker } = setup(driver)
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'), { delay: 60_000 })
+
+    assert.isFalse(await worker.work('default'))
+    assert.equal(driver.size('default'), 1)
+  })
+
+  test('run queued commands through the behaviors', async ({ assert }) => {
+    const driver = new MemoryQueueDriver()
+    const { commandBus, worker } = setup(driver)
+    const executed: string[] = []
+
+    const behavior: CommandBehavior = {
+      async handle(command, next) {
+        executed.push((command as unknown as SendEmailCommand).to)
+        return next(command)
+      },
+    }
+    commandBus.use(behavior)
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+    await worker.work('default')
+
+    assert.deepEqual(executed, ['virk@adonisjs.com'])
+  })
+
+  test('fail to dispatch without a queue driver', async ({ assert }) => {
+    const commandBus = new CommandBus()
+
+    await assert.rejects(async () => {
+      await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+    }, /Cannot dispatch commands without a queue driver/)
+  })
+
+  test('fail to dispatch commands without a string type', async ({ assert }) => {
+    const { commandBus } = setup(new MemoryQueueDriver())
+    const command = { type: Symbol('emails.send'), __command: true as const }
+
+    await assert.rejects(async () => {
+      await commandBus.dispatch(command)
+    }, /without a string type/)
+  })
+
+  test('fail to dispatch commands sharing their class name', async ({ assert }) => {
+    const { commandBus } = setup(new MemoryQueueDriver())
+    const defineCommand = () =>
+      class ExportUsersCommand implements ICommand {
+        readonly __command: true = true
+      }
+    const First = defineCommand()
+    const Second = defineCommand()
+
+    await commandBus.dispatch(new First())
+
+    const error = await commandBus.dispatch(new Second()).catch((thrown) => thrown)
+    assert.instanceOf(error, MessageSerializationError)
+    assert.match(error.message, /Several message classes are serialized as "ExportUsersCommand"/)
+  })
+})
+
+test.group('QueueWorker', () => {
+  test('retry failed commands until they run out of attempts', async ({ assert }) => {
+    const driver = new MemoryQueueDriver()
+    const { commandBus, handler, worker } = setup(driver)
+    handler.failures = 2
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+
+    assert.isTrue(await worker.work('default'))
+    assert.equal(driver.size('default'), 1)
+    assert.isTrue(await worker.work('default'))
+    assert.equal(driver.size('default'), 0)
+
+    assert.lengthOf(handler.sent, 0)
+    assert.lengthOf(driver.failed, 1)
+    assert.equal(driver.failed[0].attempts, 2)
+    assert.deepEqual(driver.failed[0].errors, ['SMTP server unavailable'])
+  })
+
+  test('consume queues once started', async ({ assert }) => {
+    const driver = new MemoryQueueDriver()
+    const { commandBus, handler, worker } = setup(driver)
+
+    worker.start(['emails', 'default'])
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+    await commandBus.dispatch(new SendEmailCommand('romain@adonisjs.com'), { queue: 'emails' })
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    await worker.stop()
+
+    assert.isFalse(worker.isRunning)
+    assert.lengthOf(handler.sent, 2)
+  })
+
+  test('rebuild commands registered by their class name', async ({ assert }) => {
+    const driver = new MemoryQueueDriver()
+    const { commandBus, worker } = setup(driver)
+    const invited: unknown[] = []
+
+    commandBus.use(new ValidationCommandBehavior())
+    commandBus.register('InviteUserCommand', {
+      handle: async (command: InviteUserCommand) => ok(invited.push(command)),
+    })
+
+    await commandBus.dispatch(new InviteUserCommand('virk@adonisjs.com'))
+    await commandBus.dispatch(new InviteUserCommand('not an email'))
+    await worker.work('default')
+    await worker.work('default')
+
+    assert.deepEqual(invited, [new InviteUserCommand('virk@adonisjs.com')])
+    assert.instanceOf(invited[0], InviteUserCommand)
+  })
+
+  test('rebuild commands queued under a type they are not registered by', async ({ assert }) => {
+    const driver = new MemoryQueueDriver()
+    const { commandBus, worker } = setup(driver)
+    const archived: unknown[] = []
+
+    commandBus.register('ArchiveUserCommand', {
+      handle: async (command: ArchiveUserCommand) => ok(archived.push(command)),
+    })
+
+    await commandBus.dispatch(new ArchiveUserCommand(1))
+    await worker.work('default')
+
+    assert.lengthOf(archived, 1)
+    assert.instanceOf(archived[0], ArchiveUserCommand)
+  })
+
+  test('log the failures of the driver', async ({ assert }) => {
+    const driver = new MemoryQueueDriver()
+    const { logger, logs } = createLogger()
+    const worker = new QueueWorker(new CommandBus(), driver, QUEUE_CONFIG, logger)
+    driver.pop = async () => {
+      throw new Error('Connection lost')
+    }
+
+    worker.start(['default'])
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    await worker.stop()
+
+    assert.containsSubset(logs(), [
+      {
+        level: 50,
+        queues: ['default'],
+        err: { message: 'Connection lost' },
+        msg: '[CQRS] Failed to work queued commands',
+      },
+    ])
+  })
+
+  test('report unknown commands as failures', async ({ assert }) => {
+    const driver = new MemoryQueueDriver()
+    const worker = new QueueWorker(new CommandBus(), driver, { ...QUEUE_CONFIG, maxAttempts: 1 })
+
+    await driver.push({ type: 'unknown', payload: {}, queue: 'default', availableAt: 0 })
+    await worker.work('default')
+
+    assert.deepEqual(driver.failed[0].errors, ['No handler registered for command: unknown'])
+  })
+})
+
+test.group('DatabaseQueueDriver', (group) => {
+  let db: Database
+
+  group.each.setup(async () => {
+    db = await createDatabase()
+    return () => db.manager.closeAll()
+  })
+
+  test('execute queued commands and delete them', async ({ assert }) => {
+    const { commandBus, handler, worker } = setup(new DatabaseQueueDriver(db, QUEUE_CONFIG))
+
+    const id = await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+    assert.isString(id)
+
+    assert.isTrue(await worker.work('default'))
+    assert.isFalse(await worker.work('default'))
+    assert.equal(handler.sent[0].to, 'virk@adonisjs.com')
+    assert.lengthOf(await db.from(QUEUE_CONFIG.table), 0)
+  })
+
+  test('reserve a job for a single worker', async ({ assert }) => {
+    const driver = new DatabaseQueueDriver(db, QUEUE_CONFIG)
+    const { commandBus } = setup(driver)
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+
+    assert.isNotNull(await driver.pop('default'))
+    assert.isNull(await driver.pop('default'))
+  })
+
+  test('make expired reservations available again', async ({ assert }) => {
+    const driver = new DatabaseQueueDriver(db, { ...QUEUE_CONFIG, retryAfter: 0 })
+    const { commandBus } = setup(driver)
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+
+    assert.isNotNull(await driver.pop('default'))
+    assert.isNotNull(await driver.pop('default'))
+  })
+
+  test('keep failed jobs with their last error', async ({ assert }) => {
+    const { commandBus, handler, worker } = setup(new DatabaseQueueDriver(db, QUEUE_CONFIG))
+    handler.failures = 2
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+    await worker.work('default')
+    await worker.work('default')
+    assert.isFalse(await worker.work('default'))
+
+    const [job] = await db.from(QUEUE_CONFIG.table)
+    assert.equal(job.attempts, 2)
+    assert.equal(job.last_error, 'SMTP server unavailable')
+    assert.isNotNull(job.failed_at)
+  })
+})
+
+test.group('RedisQueueDriver', (group) => {
+  let redis: InstanceType<typeof RedisMock>
+
+  group.each.setup(async () => {
+    // Runs the Lua scripts in-process, no Redis server needed
+    redis = new RedisMock()
+    await redis.flushall()
+    return () => redis.disconnect()
+  })
+
+  function createDriver(config: Partial<typeof QUEUE_CONFIG> = {}) {
+    return new RedisQueueDriver(redis as unknown as Connection, { ...QUEUE_CONFIG, ...config })
+  }
+
+  test('execute queued commands and delete them', async ({ assert }) => {
+    const { commandBus, handler, worker } = setup(createDriver())
+
+    const id = await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+    assert.isString(id)
+
+    assert.isTrue(await worker.work('default'))
+    assert.isFalse(await worker.work('default'))
+    assert.instanceOf(handler.sent[0], SendEmailCommand)
+    assert.equal(handler.sent[0].to, 'virk@adonisjs.com')
+    assert.equal(await redis.hlen('cqrs:queue:jobs'), 0)
+    assert.equal(await redis.zcard('cqrs:queue:default:reserved'), 0)
+  })
+
+  test('keep delayed jobs until they are available', async ({ assert }) => {
+    const driver = createDriver()
+    const { commandBus } = setup(driver)
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'), { delay: 60_000 })
+    await commandBus.dispatch(new SendEmailCommand('romain@adonisjs.com'))
+
+    const job = await driver.pop('default')
+    assert.deepEqual(job!.payload, { to: 'romain@adonisjs.com', __command: true })
+    assert.isNull(await driver.pop('default'))
+  })
+
+  test('reserve a job for a single worker', async ({ assert }) => {
+    const driver = createDriver()
+    const { commandBus } = setup(driver)
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+
+    assert.isNotNull(await driver.pop('default'))
+    assert.isNull(await driver.pop('default'))
+  })
+
+  test('make expired reservations available again', async ({ assert }) => {
+    const driver = createDriver({ retryAfter: 0 })
+    const { commandBus } = setup(driver)
+
+    const id = await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+
+    assert.equal((await driver.pop('default'))!.id, id)
+    assert.equal((await driver.pop('default'))!.id, id)
+  })
+
+  test('release failed jobs with their last error', async ({ assert }) => {
+    const driver = createDriver()
+    const { commandBus, handler, worker } = setup(driver)
+    handler.failures = 1
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+    await worker.work('default')
+
+    const [stored] = await redis.hvals('cqrs:queue:jobs')
+    const job = JSON.parse(stored)
+    assert.equal(job.attempts, 1)
+    assert.equal(job.lastError, 'SMTP server unavailable')
+    assert.equal(await redis.zcard('cqrs:queue:default:reserved'), 0)
+
+    assert.isTrue(await worker.work('default'))
+    assert.lengthOf(handler.sent, 1)
+  })
+
+  test('move jobs out of attempts to the failed list', async ({ assert }) => {
+    const driver = createDriver()
+    const { commandBus, handler, worker } = setup(driver)
+    handler.failures = 2
+
+    await commandBus.dispatch(new SendEmailCommand('virk@adonisjs.com'))
+    await worker.work('default')
+    await worker.work('default')
+    assert.isFalse(await worker.work('default'))
+
+    const [failed] = await redis.lrange('cqrs:queue:default:failed', 0, -1)
+    assert.containsSubset(JSON.parse(failed), {
+      type: 'emails.send',
+      attempts: 2,
+      errors: ['SMTP server unavailable'],
+    })
+    assert.equal(await redis.hlen('cqrs:queue:jobs'), 0)
+    assert.equal(await redis.zcard('cqrs:queue:default'), 0)
+  })
+})
@@ -0,0 +1,70 @@
+import { test } from '@japa/runner'
+import {
+  Sensitive,
+  isSensitiveField,
+  redactMessage,
+  type ICommand,
+} from '../../src/services/index.js'
+
+class Card {
+  @Sensitive()
+  number: string
+
+  constructor(number: string) {
+    this.number = number
+  }
+}
+
+class CreateUser implements ICommand {
+  readonly __command: true = true
+
+  @Sensitive()
+  ssn: string
+
+  constructor(
+    public email: string,
+    public password: string,
+    ssn: string,
+    public card?: Card
+  ) {
+    this.ssn = ssn
+  }
+}
+
+class CreateAdmin extends CreateUser {}
+
+test.group('Redaction', () => {
+  test('match sensitive fields by name or by path', ({ assert }) => {
+    assert.isTrue(isSensitiveField('password'))
+    assert.isTrue(isSensitiveField('user.Password'))
+    assert.isFalse(isSensitiveField('email'))
+
+    assert.isTrue(isSensitiveField('user.email', ['user.email']))
+    assert.isFalse(isSensitiveField('email', ['user.email']))
+    assert.isTrue(isSensitiveField('users.admin.email', ['users.*.email']))
+  })
+
+  test('redact the fields marked with @Sensitive()', ({ assert }) => {
+    const command = new CreateAdmin('jane@example.com', 'secret', '123-45-6789', new Card('4242'))
+
+    assert.deepEqual(redactMessage(command), {
+      __command: true,
+      ssn: '[REDACTED]',
+      email: 'jane@example.com',
+      password: '[REDACTED]',
+      card: { number: '[REDACTED]' },
+    })
+  })
+
+  test('redact nested objects and arrays by path', ({ assert }) => {
+    const message = {
+      contacts: [{ email: 'jane@example.com', phone: '555' }],
+      owner: { email: 'john@example.com' },
+    }
+
+    assert.deepEqual(redactMessage(message, ['contacts.email']), {
+      contacts: [{ email: '[REDACTED]', phone: '555' }],
+      owner: { email: 'john@example.com' },
+    })
+  })
+})
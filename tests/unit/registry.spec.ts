@@ -0,0 +1,85 @@
+import { test } from '@japa/runner'
+import {
+  CommandBus,
+  QueryBus,
+  ok,
+  type ICommand,
+  type ICommandHandler,
+  type IQuery,
+  type IQueryHandler,
+  type Result,
+} from '../../src/services/index.js'
+
+// Registered command
+class RenameAccountCommand implements ICommand {
+  readonly __command: true = true
+  constructor(public accountName: string) {}
+}
+
+// Registered query
+class FindAccountQuery implements IQuery {
+  readonly __query: true = true
+  constructor(public accountId: number) {}
+}
+
+declare module '../../src/types.js' {
+  interface CommandRegistry {
+    RenameAccountCommand: { command: RenameAccountCommand; result: { renamed: boolean } }
+  }
+
+  interface QueryRegistry {
+    FindAccountQuery: { query: FindAccountQuery; result: { accountName: string } }
+  }
+}
+
+class RenameAccountHandler implements ICommandHandler<RenameAccountCommand, { renamed: boolean }> {
+  async handle(): Promise<Result<{ renamed: boolean }>> {
+    return ok({ renamed: true })
+  }
+}
+
+class FindAccountHandler implements IQueryHandler<FindAccountQuery, { accountName: string }> {
+  async handle(query: FindAccountQuery): Promise<{ accountName: string }> {
+    return { accountName: `account-${query.accountId}` }
+  }
+}
+
+class WrongResultHandler implements ICommandHandler<RenameAccountCommand, number> {
+  async handle(): Promise<Result<number>> {
+    return ok(1)
+  }
+}
+
+test.group('Handler registries', () => {
+  test('infer command result from the CommandRegistry', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.register(RenameAccountCommand, new RenameAccountHandler())
+
+    const result = await bus.execute(new RenameAccountCommand('savings'))
+    const renamed: boolean = result.unwrap().renamed
+
+    assert.isTrue(renamed)
+  })
+
+  test('infer query result from the QueryRegistry', async ({ assert }) => {
+    const bus = new QueryBus()
+    bus.register(FindAccountQuery, new FindAccountHandler())
+
+    const account = await bus.execute(new FindAccountQuery(7))
+    const accountName: string = account.accountName
+
+    assert.equal(accountName, 'account-7')
+  })
+
+  test('reject handlers not matching the registry', ({ assert }) => {
+    const bus = new CommandBus()
+
+    // @ts-expect-error - the registry declares a "{ renamed: boolean }" result
+    bus.register(RenameAccountCommand, new WrongResultHandler())
+
+    // @ts-expect-error - registry keys are checked as well
+    bus.register('RenameAccountCommand', new WrongResultHandler())
+
+    assert.isTrue(true)
+  })
+})
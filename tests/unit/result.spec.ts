@@ -1,5 +1,20 @@
 import { test } from '@japa/runner'
-import { ok, err, errMessage, isOk, isErr, type Result } from '../../src/services/index.js'
+import {
+  ok,
+  err,
+  errMessage,
+  isOk,
+  isErr,
+  type Result,
+  CQRError,
+  CommandBus,
+  ResultAsync,
+  Result as Results,
+  combine,
+  fromPromise,
+  tryCatch,
+  type ICommand,
+} from '../../src/services/index.js'
 
 test.group('Result type', () => {
   test('ok creates a successful result', ({ assert }) => {
@@ -54,7 +69,9 @@ test.group('Result type', () => {
     }
 
     if (isErr(failure)) {
-      assert.deepEqual(failure.error, ['error'])
+      assert.lengthOf(failure.error, 1)
+      assert.instanceOf(failure.error[0], CQRError)
+      assert.equal(failure.error[0].message, 'error')
     } else {
       assert.fail('Should be Err')
     }
@@ -91,3 +108,153 @@ test.group('Result type', () => {
     assert.throws(() => result.unwrap(), 'error')
   })
 })
+
+const parse = (input: string): Result<number> => {
+  const value = Number(input)
+  return Number.isNaN(value) ? err([`"${input}" is not a number`]) : ok(value)
+}
+
+test.group('Result combinators', () => {
+  test('ok without a value creates a void result', ({ assert }) => {
+    const result: Result<void> = ok()
+    assert.isTrue(result.isOk())
+  })
+
+  test('andThen chains operations that can fail', ({ assert }) => {
+    const half = (value: number): Result<number> =>
+      value % 2 === 0 ? ok(value / 2) : err(['Odd value'])
+
+    assert.equal(parse('8').andThen(half).andThen(half).unwrap(), 2)
+    assert.equal(parse('4').flatMap(half).unwrap(), 2)
+
+    const failed = parse('6').andThen(half).andThen(half)
+    assert.deepEqual(failed.isErr() ? failed.getErrors() : [], ['Odd value'])
+
+    const notParsed = parse('abc').andThen(half)
+    assert.deepEqual(notParsed.isErr() ? notParsed.getErrors() : [], ['"abc" is not a number'])
+  })
+
+  test('mapErr and orElse transform and recover errors', ({ assert }) => {
+    const messages = parse('abc').mapErr((errors) => errors.map((error) => error.code))
+    assert.deepEqual(messages.isErr() ? messages.error : [], ['E_CQRS_ERROR'])
+
+    assert.equal(
+      parse('abc')
+        .orElse(() => ok(0))
+        .unwrap(),
+      0
+    )
+    assert.equal(
+      parse('1')
+        .orElse(() => ok(0))
+        .unwrap(),
+      1
+    )
+  })
+
+  test('match calls the handler of the outcome', ({ assert }) => {
+    const describe = (result: Result<number>) =>
+      result.match({
+        ok: (value) => `value: ${value}`,
+        err: (errors) => `errors: ${errors.length}`,
+      })
+
+    assert.equal(describe(parse('4')), 'value: 4')
+    assert.equal(describe(parse('abc')), 'errors: 1')
+  })
+
+  test('tap and tapErr run side effects', ({ assert }) => {
+    const seen: string[] = []
+
+    parse('4')
+      .tap((value) => seen.push(`ok ${value}`))
+      .tapErr(() => seen.push('err'))
+    parse('abc')
+      .tap(() => seen.push('ok'))
+      .tapErr((errors) => seen.push(`err ${errors.length}`))
+
+    assert.deepEqual(seen, ['ok 4', 'err 1'])
+  })
+
+  test('combine collects the values or returns the first error', ({ assert }) => {
+    const values = combine([parse('1'), ok('two')])
+    assert.deepEqual(values.unwrap(), [1, 'two'])
+
+    const failed = Results.all([parse('1'), parse('abc'), parse('def')])
+    assert.deepEqual(failed.isErr() ? failed.getErrors() : [], ['"abc" is not a number'])
+  })
+
+  test('tryCatch turns thrown errors into an Err', ({ assert }) => {
+    assert.deepEqual(tryCatch(() => JSON.parse('{"a":1}')).unwrap(), { a: 1 })
+
+    const failed = tryCatch(() => JSON.parse('{'))
+    assert.instanceOf(failed.isErr() ? failed.error[0].cause : null, SyntaxError)
+
+    const mapped = tryCatch(
+      () => JSON.parse('{'),
+      () => 'invalid json'
+    )
+    assert.equal(mapped.isErr() ? mapped.error : '', 'invalid json')
+  })
+})
+
+class AddCommand implements ICommand {
+  readonly __command: true = true
+  constructor(public value: number) {}
+}
+
+test.group('ResultAsync', () => {
+  test('chain command results without awaiting each step', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.register('AddCommand', {
+      handle: async (command: AddCommand): Promise<Result<number>> =>
+        command.value > 10 ? err(['Value is too large']) : ok(command.value + 1),
+    })
+
+    const result = await bus
+      .execute<AddCommand, number>(new AddCommand(1))
+      .andThen((value) => bus.execute<AddCommand, number>(new AddCommand(value)))
+      .map((value) => value * 10)
+    assert.equal(result.unwrap(), 30)
+
+    const failed = await bus
+      .execute<AddCommand, number>(new AddCommand(10))
+      .andThen((value) => bus.execute<AddCommand, number>(new AddCommand(value)))
+      .map((value) => value * 10)
+    assert.deepEqual(failed.isErr() ? failed.getErrors() : [], ['Value is too large'])
+  })
+
+  test('match, unwrapOr and tap resolve the outcome', async ({ assert }) => {
+    const seen: number[] = []
+    const success = ResultAsync.from(ok(2)).tap(async (value) => {
+      seen.push(value)
+    })
+
+    assert.equal(await success.match({ ok: (value) => value, err: () => 0 }), 2)
+    assert.equal(await ResultAsync.from(parse('abc')).unwrapOr(-1), -1)
+    assert.deepEqual(seen, [2])
+
+    await assert.rejects(async () => {
+      await ResultAsync.from(parse('abc')).unwrap()
+    }, /is not a number/)
+  })
+
+  test('fromPromise turns rejections into an Err', async ({ assert }) => {
+    const value = await fromPromise(Promise.resolve(1))
+    assert.equal(value.unwrap(), 1)
+
+    const failed = await fromPromise(() => Promise.reject(new Error('Network error')))
+    assert.deepEqual(failed.isErr() ? failed.getErrors() : [], ['Network error'])
+
+    const mapped = await fromPromise(Promise.reject(new Error('Timeout')), () => 'timeout')
+    assert.equal(mapped.isErr() ? mapped.error : '', 'timeout')
+  })
+
+  test('combine waits for all the results', async ({ assert }) => {
+    const values = await ResultAsync.combine([Promise.resolve(parse('1')), ok('two')])
+    assert.deepEqual(values.unwrap(), [1, 'two'])
+
+    const failed = await ResultAsync.combine([parse('1'), Promise.resolve(parse('abc'))])
+    assert.isTrue(failed.isErr())
+  })
+})
@@ -0,0 +1,461 @@
+import { test } from '@japa/runner'
+import {
+  CommandBus,
+  DatabaseSagaStore,
+  EventBus,
+  MemorySagaStore,
+  Saga,
+  SagaCommandBehavior,
+  SagaConcurrencyError,
+  SagaManager,
+  err,
+  ok,
+  type ICommand,
+  type IEvent,
+  type Result,
+  type SagaContext,
+  type SagaInstance,
+  type SagaStore,
+} from '../../src/services/index.js'
+import { createDatabase, createLogger } from '../helpers.js'
+
+class OrderPlacedEvent implements IEvent {
+  readonly __event: true = true
+  constructor(
+    public orderId: string,
+    public amount: number
+  ) {}
+}
+
+class PaymentReceivedEvent implements IEvent {
+  readonly __event: true = true
+  constructor(public orderId: string) {}
+}
+
+class ReserveStockCommand implements ICommand {
+  readonly __command: true = true
+  constructor(public orderId: string) {}
+}
+
+class ReleaseStockCommand implements ICommand {
+  readonly __command: true = true
+  constructor(public orderId: string) {}
+}
+
+class ChargeCommand implements ICommand {
+  readonly __command: true = true
+  constructor(
+    public orderId: string,
+    public amount: number
+  ) {}
+}
+
+class ShipOrderCommand implements ICommand {
+  readonly __command: true = true
+  constructor(public orderId: string) {}
+}
+
+// Compensation registered by its class name, stored under its type
+class RefundOrderCommand implements ICommand {
+  static readonly type = 'orders.refund'
+  readonly __command: true = true
+  constructor(public orderId: string) {}
+}
+
+interface OrderState {
+  amount: number
+  paid: boolean
+}
+
+class OrderSaga extends Saga<OrderState> {
+  timeout = 60_000
+
+  initialState(): OrderState {
+    return { amount: 0, paid: false }
+  }
+
+  setup() {
+    this.startedBy(OrderPlacedEvent, (event) => event.orderId, this.#placed.bind(this))
+    this.on(PaymentReceivedEvent, (event) => event.orderId, this.#paid.bind(this))
+  }
+
+  async #placed(event: OrderPlacedEvent, saga: SagaContext<OrderState>) {
+    saga.state.amount = event.amount
+
+    const reserved = await saga.execute(new ReserveStockCommand(event.orderId), {
+      compensation: new ReleaseStockCommand(event.orderId),
+    })
+    if (reserved.isOk()) {
+      await saga.execute(new ChargeCommand(event.orderId, event.amount))
+    }
+  }
+
+  async #paid(event: PaymentReceivedEvent, saga: SagaContext<OrderState>) {
+    saga.state.paid = true
+    await saga.execute(new ShipOrderCommand(event.orderId))
+    saga.complete()
+  }
+}
+
+/**
+ * Command bus recording the executed commands, failing the
+ * commands listed in "failing"
+ */
+function createCommandBus() {
+  const bus = new CommandBus()
+  const executed: string[] = []
+  const failing = new Set<string>()
+
+  for (const Command of [
+    ReserveStockCommand,
+    ReleaseStockCommand,
+    ChargeCommand,
+    ShipOrderCommand,
+  ]) {
+    bus.register(Command, {
+      async handle(command: ICommand): Promise<Result<void>> {
+        executed.push(command.constructor.name)
+        return failing.has(command.constructor.name) ? err(['Declined']) : ok(undefined)
+      },
+    })
+  }
+
+  return { bus, executed, failing }
+}
+
+function setup(store: SagaStore = new MemorySagaStore()) {
+  const { bus: commandBus, executed, failing } = createCommandBus()
+  const eventBus = new EventBus()
+  const manager = new SagaManager(commandBus, eventBus, store, { timeoutInterval: 10 })
+
+  manager.register(new OrderSaga())
+  return { commandBus, eventBus, manager, store, executed, failing }
+}
+
+test.group('Saga', () => {
+  test('start a saga and persist its state', async ({ assert }) => {
+    const { eventBus, store, executed } = setup()
+
+    const result = await eventBus.publish(new OrderPlacedEvent('42', 100))
+    assert.isTrue(result.isOk())
+
+    const instance = await store.find('OrderSaga', '42')
+    assert.equal(instance!.status, 'running')
+    assert.deepEqual(instance!.state, { amount: 100, paid: false })
+    assert.lengthOf(instance!.compensations, 1)
+    assert.deepEqual(executed, ['ReserveStockCommand', 'ChargeCommand'])
+  })
+
+  test('resume the instance of the correlation id', async ({ assert }) => {
+    const { eventBus, store, executed } = setup()
+
+    await eventBus.publish(new OrderPlacedEvent('42', 100))
+    await eventBus.publish(new PaymentReceivedEvent('42'))
+
+    const instance = await store.find('OrderSaga', '42')
+    assert.equal(instance!.status, 'completed')
+    assert.isTrue(instance!.state.paid)
+    assert.include(executed, 'ShipOrderCommand')
+  })
+
+  test('ignore events without a running instance', async ({ assert }) => {
+    const { eventBus, store, executed } = setup()
+
+    await eventBus.publish(new PaymentReceivedEvent('42'))
+
+    assert.isNull(await store.find('OrderSaga', '42'))
+    assert.deepEqual(executed, [])
+  })
+
+  test('compensate the completed steps when a command fails', async ({ assert }) => {
+    const { eventBus, store, executed, failing } = setup()
+    failing.add('ChargeCommand')
+
+    await eventBus.publish(new OrderPlacedEvent('42', 100))
+
+    const instance = await store.find('OrderSaga', '42')
+    assert.equal(instance!.status, 'compensated')
+    assert.deepEqual(instance!.errors, ['Declined'])
+    assert.deepEqual(executed, ['ReserveStockCommand', 'ChargeCommand', 'ReleaseStockCommand'])
+
+    // A compensated saga no longer reacts to events
+    await eventBus.publish(new PaymentReceivedEvent('42'))
+    assert.notInclude(executed, 'ShipOrderCommand')
+  })
+
+  test('mark the saga as failed when a compensation fails', async ({ assert }) => {
+    const { eventBus, store, failing } = setup()
+    failing.add('ChargeCommand').add('ReleaseStockCommand')
+
+    await eventBus.publish(new OrderPlacedEvent('42', 100))
+
+    const instance = await store.find('OrderSaga', '42')
+    assert.equal(instance!.status, 'failed')
+    assert.deepEqual(instance!.errors, ['Declined', 'Declined'])
+  })
+
+  test('compensate when a handler throws', async ({ assert }) => {
+    const { commandBus, eventBus, store, executed } = setup()
+    const manager = new SagaManager(commandBus, eventBus, store, { timeoutInterval: 10 })
+
+    class ThrowingSaga extends Saga {
+      setup() {
+        this.startedBy(
+          OrderPlacedEvent,
+          (event) => event.orderId,
+          async (event, saga) => {
+            await saga.execute(new ReserveStockCommand(event.orderId), {
+              compensation: new ReleaseStockCommand(event.orderId),
+            })
+            throw new Error('Unexpected')
+          }
+        )
+      }
+    }
+    manager.register(new ThrowingSaga())
+
+    await eventBus.publish(new OrderPlacedEvent('7', 100))
+
+    const instance = await store.find('ThrowingSaga', '7')
+    assert.equal(instance!.status, 'compensated')
+    assert.deepEqual(instance!.errors, ['Unexpected'])
+    assert.includeMembers(executed, ['ReleaseStockCommand'])
+  })
+
+  test('compensate a resumed saga with commands registered by their class name', async ({
+    assert,
+  }) => {
+    const store = new MemorySagaStore()
+
+    class RefundSaga extends Saga {
+      timeout = 60_000
+
+      setup() {
+        this.startedBy(
+          OrderPlacedEvent,
+          (event) => event.orderId,
+          async (event, saga) => {
+            await saga.execute(new ChargeCommand(event.orderId, event.amount), {
+              compensation: new RefundOrderCommand(event.orderId),
+            })
+          }
+        )
+      }
+    }
+
+    const eventBus = new EventBus()
+    new SagaManager(createCommandBus().bus, eventBus, store, { timeoutInterval: 10 }).register(
+      new RefundSaga()
+    )
+    await eventBus.publish(new OrderPlacedEvent('42', 100))
+
+    const instance = (await store.find('RefundSaga', '42'))!
+    instance.deadline = Date.now() - 1
+    await store.save(instance)
+
+    // Resumed by another manager, as after a restart
+    const refunded: unknown[] = []
+    const commandBus = new CommandBus()
+    commandBus.register('RefundOrderCommand', {
+      handle: async (command: RefundOrderCommand) => ok(refunded.push(command)),
+    })
+    const manager = new SagaManager(commandBus, new EventBus(), store, { timeoutInterval: 10 })
+    manager.register(new RefundSaga())
+
+    assert.equal(await manager.checkTimeouts(), 1)
+    assert.equal((await store.find('RefundSaga', '42'))!.status, 'compensated')
+    assert.deepEqual(refunded, [new RefundOrderCommand('42')])
+    assert.instanceOf(refunded[0], RefundOrderCommand)
+  })
+
+  test('react to command results', async ({ assert }) => {
+    const { bus: commandBus } = createCommandBus()
+    const eventBus = new EventBus()
+    const store = new MemorySagaStore()
+    const manager = new SagaManager(commandBus, eventBus, store, { timeoutInterval: 10 })
+    commandBus.use(new SagaCommandBehavior(manager))
+
+    class StockSaga extends Saga<{ reservations: number }> {
+      setup() {
+        this.onResult(
+          ReserveStockCommand,
+          (command) => command.orderId,
+          async (_, saga, result) => {
+            saga.state.reservations = (saga.state.reservations ?? 0) + (result.isOk() ? 1 : 0)
+          },
+          { start: true }
+        )
+      }
+    }
+    manager.register(new StockSaga())
+
+    await commandBus.execute(new ReserveStockCommand('42'))
+    await commandBus.execute(new ReserveStockCommand('42'))
+
+    const instance = await store.find('StockSaga', '42')
+    assert.equal(instance!.state.reservations, 2)
+  })
+
+  test('log the failures of sagas reacting to command results', async ({ assert }) => {
+    const { bus: commandBus } = createCommandBus()
+    const { logger, logs } = createLogger()
+    const manager = {
+      observe: async () => {
+        throw new Error('Store unavailable')
+      },
+    } as unknown as SagaManager
+    commandBus.use(new SagaCommandBehavior(manager, logger))
+
+    const result = await commandBus.execute(new ReserveStockCommand('42'))
+
+    assert.isTrue(result.isOk())
+    assert.containsSubset(logs(), [
+      {
+        level: 50,
+        kind: 'command',
+        name: 'ReserveStockCommand',
+        err: { message: 'Store unavailable' },
+        msg: 'Sagas failed to handle the result of ReserveStockCommand',
+      },
+    ])
+  })
+
+  test('handle events published while handling another message', async ({ assert }) => {
+    const { commandBus, eventBus, store } = setup()
+    const manager = new SagaManager(commandBus, eventBus, store, { timeoutInterval: 10 })
+
+    // Charging the order publishes the payment event of the same saga instance
+    commandBus.register(ChargeCommand, {
+      async handle(command: ChargeCommand): Promise<Result<void>> {
+        await eventBus.publish(new PaymentReceivedEvent(command.orderId))
+        return ok(undefined)
+      },
+    })
+
+    const handled: string[] = []
+    class PaymentSaga extends Saga {
+      setup() {
+        this.startedBy(
+          OrderPlacedEvent,
+          (event) => event.orderId,
+          async (event, saga) => {
+            await saga.execute(new ChargeCommand(event.orderId, event.amount))
+            handled.push('placed')
+          }
+        )
+        this.on(
+          PaymentReceivedEvent,
+          (event) => event.orderId,
+          async (_, saga) => {
+            handled.push('paid')
+            saga.complete()
+          }
+        )
+      }
+    }
+    manager.register(new PaymentSaga())
+
+    await eventBus.publish(new OrderPlacedEvent('42', 100))
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    assert.deepEqual(handled, ['placed', 'paid'])
+    assert.equal((await store.find('PaymentSaga', '42'))!.status, 'completed')
+  })
+
+  test('time out running instances', async ({ assert }) => {
+    const { eventBus, manager, store, executed } = setup()
+
+    await eventBus.publish(new OrderPlacedEvent('42', 100))
+    assert.equal(await manager.checkTimeouts(), 0)
+
+    const instance = (await store.find('OrderSaga', '42'))!
+    instance.deadline = Date.now() - 1
+    await store.save(instance)
+
+    assert.equal(await manager.checkTimeouts(), 1)
+
+    const timedOut = await store.find('OrderSaga', '42')
+    assert.equal(timedOut!.status, 'compensated')
+    assert.deepEqual(timedOut!.errors, ['Saga timed out'])
+    assert.include(executed, 'ReleaseStockCommand')
+  })
+
+  test('check the timeouts periodically once started', async ({ assert }) => {
+    const { eventBus, manager, store } = setup()
+
+    await eventBus.publish(new OrderPlacedEvent('42', 100))
+    const instance = (await store.find('OrderSaga', '42'))!
+    instance.deadline = Date.now()
+    await store.save(instance)
+
+    manager.start()
+    await new Promise((resolve) => setTimeout(resolve, 30))
+    await manager.stop()
+
+    assert.isFalse(manager.isRunning)
+    assert.equal((await store.find('OrderSaga', '42'))!.status, 'compensated')
+  })
+})
+
+test.group('Saga stores', () => {
+  /**
+   * Runs the same scenario against every store
+   */
+  async function assertStoreContract(assert: any, store: SagaStore) {
+    const instance: SagaInstance = {
+      sagaName: 'OrderSaga',
+      correlationId: '42',
+      status: 'running',
+      state: { amount: 100 },
+      compensations: [{ type: 'ReleaseStockCommand', payload: { orderId: '42' } }],
+      deadline: 1000,
+      errors: [],
+      version: 0,
+    }
+
+    assert.isNull(await store.find('OrderSaga', '42'))
+    await store.save(instance)
+    assert.equal(instance.version, 1)
+    assert.deepEqual(await store.find('OrderSaga', '42'), instance)
+
+    // A stale copy cannot overwrite a newer version
+    const stale = (await store.find('OrderSaga', '42'))!
+    instance.state.amount = 200
+    await store.save(instance)
+    await assert.rejects(() => store.save(stale), SagaConcurrencyError)
+
+    assert.lengthOf(await store.expired(999), 0)
+    assert.lengthOf(await store.expired(1000), 1)
+  }
+
+  test('memory store', async ({ assert }) => {
+    await assertStoreContract(assert, new MemorySagaStore())
+  })
+
+  test('database store', async ({ assert, cleanup }) => {
+    const db = createDatabase()
+    cleanup(() => db.manager.closeAll())
+    await db.connection().schema.createTable('cqrs_sagas', (table) => {
+      table.increments('id')
+      table.string('saga_name')
+      table.string('correlation_id')
+      table.string('status')
+      table.text('state')
+      table.text('compensations')
+      table.text('errors')
+      table.bigInteger('deadline').nullable()
+      table.integer('version')
+      table.timestamp('created_at')
+      table.timestamp('updated_at')
+      table.unique(['saga_name', 'correlation_id'])
+    })
+
+    await assertStoreContract(assert, new DatabaseSagaStore(db))
+
+    // The whole flow works against the database
+    const { eventBus, store } = setup(new DatabaseSagaStore(db))
+    await eventBus.publish(new OrderPlacedEvent('7', 50))
+    await eventBus.publish(new PaymentReceivedEvent('7'))
+    assert.equal((await store.find('OrderSaga', '7'))!.status, 'completed')
+  })
+})
@@ -0,0 +1,170 @@
+import { test } from '@japa/runner'
+import {
+  CommandBus,
+  EventBus,
+  QueryBus,
+  UseBehaviors,
+  ok,
+  type CommandBehavior,
+  type EventBehavior,
+  type ICommand,
+  type ICommandHandler,
+  type IEvent,
+  type IEventHandler,
+  type IQuery,
+  type QueryBehavior,
+  type Result,
+} from '../../src/services/index.js'
+
+const calls: string[] = []
+
+// Behavior recording its name when it runs
+function recording(name: string): CommandBehavior & QueryBehavior & EventBehavior {
+  return {
+    async handle(message: any, next: (message: any) => Promise<any>) {
+      calls.push(name)
+      return next(message)
+    },
+  }
+}
+
+class AuditBehavior implements CommandBehavior {
+  static instances = 0
+
+  constructor() {
+    AuditBehavior.instances++
+  }
+
+  async handle<TCommand extends ICommand, TResult>(
+    command: TCommand,
+    next: (command: TCommand) => Promise<Result<TResult>>
+  ): Promise<Result<TResult>> {
+    calls.push('audit')
+    return next(command)
+  }
+}
+
+@UseBehaviors(recording('command'))
+class CreateUser implements ICommand {
+  readonly __command: true = true
+  constructor(public admin = false) {}
+}
+
+class CreateAdmin extends CreateUser {}
+
+class DeleteUser implements ICommand {
+  readonly __command: true = true
+}
+
+@UseBehaviors(AuditBehavior, { behavior: recording('admin'), when: (command) => command.admin })
+class CreateUserHandler implements ICommandHandler<CreateUser> {
+  async handle(): Promise<Result<void>> {
+    calls.push('handler')
+    return ok()
+  }
+}
+
+@UseBehaviors(recording('query'))
+class GetUser implements IQuery {
+  readonly __query: true = true
+}
+
+@UseBehaviors(recording('event'))
+class UserCreated implements IEvent {
+  readonly __event: true = true
+}
+
+@UseBehaviors(recording('mailer'))
+class SendWelcomeEmail implements IEventHandler<UserCreated> {
+  async handle() {
+    calls.push('welcome email')
+  }
+}
+
+test.group('Scoped behaviors', (group) => {
+  group.each.setup(() => {
+    calls.length = 0
+  })
+
+  test('run the behaviors of the command and of the handler after the bus behaviors', async ({
+    assert,
+  }) => {
+    const bus = new CommandBus()
+    bus.use(recording('global'))
+    bus.register(CreateUser, new CreateUserHandler())
+    bus.register(DeleteUser, { handle: async (): Promise<Result<void>> => ok() })
+
+    await bus.execute(new CreateUser())
+    assert.deepEqual(calls, ['global', 'command', 'audit', 'handler'])
+
+    calls.length = 0
+    await bus.execute(new DeleteUser())
+    assert.deepEqual(calls, ['global'])
+  })
+
+  test('apply behaviors to the matching messages only', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.use(recording('create'), { when: (command) => command instanceof CreateUser })
+    bus.register(CreateUser, new CreateUserHandler())
+    bus.register(DeleteUser, { handle: async (): Promise<Result<void>> => ok() })
+
+    await bus.execute(new DeleteUser())
+    assert.deepEqual(calls, [])
+
+    await bus.execute(new CreateUser(true))
+    assert.deepEqual(calls, ['create', 'command', 'audit', 'admin', 'handler'])
+  })
+
+  test('inherit the behaviors of the parent classes', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.register(CreateAdmin, new CreateUserHandler())
+
+    await bus.execute(new CreateAdmin())
+    assert.deepEqual(calls, ['command', 'audit', 'handler'])
+  })
+
+  test('construct behavior classes once', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.register(CreateUser, new CreateUserHandler())
+    bus.register(CreateAdmin, new CreateUserHandler())
+
+    await bus.execute(new CreateUser())
+    await bus.execute(new CreateUser())
+    await bus.execute(new CreateAdmin())
+
+    assert.equal(calls.filter((call) => call === 'audit').length, 3)
+    assert.equal(AuditBehavior.instances, 1)
+  })
+
+  test('scope query and event behaviors', async ({ assert }) => {
+    const queryBus = new QueryBus()
+    const eventBus = new EventBus()
+    queryBus.register(GetUser, { handle: async () => 'Jane' })
+    eventBus.register(UserCreated, { handle: async () => {} })
+    eventBus.use(recording('skipped'), { when: () => false })
+
+    assert.equal(await queryBus.execute(new GetUser()), 'Jane')
+    await eventBus.publish(new UserCreated())
+    assert.deepEqual(calls, ['query', 'event'])
+  })
+
+  test('run the behaviors of an event handler around that handler only', async ({ assert }) => {
+    const bus = new EventBus()
+    bus.use(recording('global'))
+    bus.register(UserCreated, SendWelcomeEmail)
+    bus.register(UserCreated, {
+      handle: async () => {
+        calls.push('audit log')
+      },
+    })
+
+    await bus.publish(new UserCreated())
+    // Handlers run concurrently, the behavior of the mailer wraps it alone
+    assert.deepEqual(calls.slice(0, 2), ['global', 'event'])
+    assert.sameMembers(calls.slice(2), ['mailer', 'welcome email', 'audit log'])
+    assert.isBelow(calls.indexOf('mailer'), calls.indexOf('welcome email'))
+
+    const [registration] = bus.registrations()
+    assert.lengthOf(bus.pipeline(registration), 3)
+  })
+})
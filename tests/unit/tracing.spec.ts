@@ -0,0 +1,138 @@
+import { test } from '@japa/runner'
+import { context, trace, SpanStatusCode } from '@opentelemetry/api'
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks'
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+import {
+  CommandBus,
+  QueryBus,
+  TracingCommandBehavior,
+  TracingQueryBehavior,
+  errMessage,
+  ok,
+  type ICommand,
+  type ICommandHandler,
+  type IQuery,
+  type Result,
+} from '../../src/services/index.js'
+
+const exporter = new InMemorySpanExporter()
+
+context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable())
+trace.setGlobalTracerProvider(
+  new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+)
+
+class RegisterUser implements ICommand {
+  readonly __command: true = true
+  constructor(
+    public email: string,
+    public password: string
+  ) {}
+}
+
+class SendWelcomeEmail implements ICommand {
+  readonly __command: true = true
+}
+
+class GetUser implements IQuery {
+  readonly __query: true = true
+  constructor(public id: number) {}
+}
+
+class RegisterUserHandler implements ICommandHandler<RegisterUser, void> {
+  constructor(private bus: CommandBus) {}
+
+  async handle(): Promise<Result<void>> {
+    await this.bus.execute(new SendWelcomeEmail())
+    return ok()
+  }
+}
+
+test.group('Tracing behaviors', (group) => {
+  group.each.setup(() => exporter.reset())
+
+  test('create a span for each command', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.use(new TracingCommandBehavior())
+    bus.register(RegisterUser, new RegisterUserHandler(bus))
+    bus.register(SendWelcomeEmail, { handle: async (): Promise<Result<void>> => ok() })
+
+    await bus.execute(new RegisterUser('jane@example.com', 'secret'))
+
+    const [child, parent] = exporter.getFinishedSpans()
+    assert.equal(parent.name, 'command RegisterUser')
+    assert.equal(parent.attributes['cqrs.message.kind'], 'command')
+    assert.equal(parent.attributes['cqrs.message.name'], 'RegisterUser')
+    assert.equal(parent.attributes['cqrs.handler'], 'RegisterUserHandler')
+    assert.equal(parent.attributes['cqrs.outcome'], 'Ok')
+    assert.isString(parent.attributes['cqrs.correlation_id'])
+
+    assert.equal(child.name, 'command SendWelcomeEmail')
+    assert.equal(child.attributes['cqrs.handler'], 'anonymous')
+    assert.equal(child.parentSpanContext?.spanId, parent.spanContext().spanId)
+    assert.equal(child.spanContext().traceId, parent.spanContext().traceId)
+    assert.equal(child.attributes['cqrs.causation_id'], parent.attributes['cqrs.message_id'])
+  })
+
+  test('redact the sensitive fields of the payload', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.use(new TracingCommandBehavior({ sensitiveFields: ['password', 'email'] }))
+    bus.register(RegisterUser, { handle: async (): Promise<Result<void>> => ok() })
+
+    await bus.execute(new RegisterUser('jane@example.com', 'secret'))
+
+    const [span] = exporter.getFinishedSpans()
+    assert.equal(span.attributes['cqrs.payload.password'], '[REDACTED]')
+    assert.equal(span.attributes['cqrs.payload.email'], '[REDACTED]')
+    assert.notProperty(span.attributes, 'cqrs.payload.__command')
+  })
+
+  test('record the errors of a failed command', async ({ assert }) => {
+    const bus = new CommandBus()
+    bus.use(new TracingCommandBehavior({ recordPayload: false }))
+    bus.register(RegisterUser, {
+      handle: async () => errMessage('Email already used', { code: 'E_EMAIL_TAKEN', status: 409 }),
+    })
+
+    await bus.execute(new RegisterUser('jane@example.com', 'secret'))
+
+    const [span] = exporter.getFinishedSpans()
+    assert.equal(span.attributes['cqrs.outcome'], 'Err')
+    assert.deepEqual(span.attributes['cqrs.error.codes'], ['E_EMAIL_TAKEN'])
+    assert.deepEqual(span.attributes['cqrs.error.messages'], ['Email already used'])
+    assert.equal(span.status.code, SpanStatusCode.ERROR)
+    assert.notProperty(span.attributes, 'cqrs.payload.email')
+  })
+
+  test('create a span for each query and record exceptions', async ({ assert }) => {
+    const bus = new QueryBus()
+    bus.use(new TracingQueryBehavior())
+    bus.register(GetUser, {
+      handle: async (query: GetUser) => {
+        if (query.id === 0) {
+          throw new Error('User not found')
+        }
+        return { id: query.id }
+      },
+    })
+
+    await bus.execute(new GetUser(1))
+    await assert.rejects(async () => {
+      await bus.execute(new GetUser(0))
+    }, /User not found/)
+
+    const [found, failed] = exporter.getFinishedSpans()
+    assert.equal(found.name, 'query GetUser')
+    assert.equal(found.attributes['cqrs.payload.id'], 1)
+    assert.equal(found.attributes['cqrs.outcome'], 'Ok')
+
+    assert.equal(failed.attributes['cqrs.outcome'], 'Err')
+    assert.deepEqual(failed.attributes['cqrs.error.messages'], ['User not found'])
+    assert.equal(failed.events[0]?.name, 'exception')
+    assert.equal(failed.status.code, SpanStatusCode.ERROR)
+  })
+})